@@ -1,6 +1,149 @@
-import React, { useState, useEffect } from "react";
+import React, {
+  useState,
+  useEffect,
+  useMemo,
+  useRef,
+  useCallback,
+} from "react";
 import ParticlesBackground from "./components/particles";
+import UndoToast from "./components/undoToast";
+import BudgetManager from "./components/budgetManager";
+import BudgetProgress from "./components/budgetProgress";
+import CalendarHeatmap from "./components/calendarHeatmap";
+import PeriodSelector from "./components/periodSelector";
+import SpendingChart from "./components/spendingChart";
+import SpendingForecastCard from "./components/spendingForecastCard";
+import CsvImport from "./components/csvImport";
+import StatementImport from "./components/statementImport";
+import CashFlowSummary from "./components/cashFlowSummary";
+import RecurringManager from "./components/recurringManager";
+import CategoryManager from "./components/categoryManager";
+import CategoryIcon from "./components/categoryIcon";
+import EnvelopeBalances from "./components/envelopeBalances";
+import CurrencySettings from "./components/currencySettings";
+import QuarantineNotice from "./components/quarantineNotice";
+import ReportView from "./components/reportView";
+import BackupRestore from "./components/backupRestore";
+import AccountManager from "./components/accountManager";
+import AccountBalances from "./components/accountBalances";
+import AttachmentPreview from "./components/attachmentPreview";
+import AttachmentViewer from "./components/attachmentViewer";
+import ExpenseFilters from "./components/expenseFilters";
+import GoalManager from "./components/goalManager";
+import InsightCards from "./components/insightCards";
+import SavingsGoals from "./components/savingsGoals";
+import SplitEditor, { type SplitLine } from "./components/splitEditor";
+import VaultSettings from "./components/vaultSettings";
+import VaultUnlock from "./components/vaultUnlock";
 import CoinCollectorGame from "./game/game";
+import type {
+  Account,
+  Attachment,
+  Budget,
+  Category,
+  EntryKind,
+  EnvelopeMove,
+  ExchangeRates,
+  Expense,
+  ExpenseFilter,
+  FilterPreset,
+  RecurringTemplate,
+  SavingsGoal,
+  SortOrder,
+} from "./types";
+import {
+  createDefaultAccount,
+  findAccount,
+  getAccountBalance,
+  getActiveAccounts,
+  isAccountUsed,
+} from "./utils/accounts";
+import {
+  ATTACHMENT_TYPES,
+  addAttachment,
+  getAttachmentIds,
+  holdAttachments,
+  releaseAttachments,
+  removeAttachments,
+} from "./utils/attachments";
+import { getBudgetSpent, getBudgetStatus } from "./utils/budget";
+import { getCashFlow } from "./utils/cashFlow";
+import {
+  DEFAULT_CATEGORIES,
+  findCategory,
+  getActiveCategoryNames,
+  getCategoryColor,
+  mergeBudgets,
+  replaceCategory,
+} from "./utils/categories";
+import { getEnvelopeSummary, renameEnvelope } from "./utils/envelopes";
+import { getSpendingForecast } from "./utils/forecast";
+import { getInsights, type Insight } from "./utils/insights";
+import { materializeRecurring } from "./utils/recurring";
+import {
+  EMPTY_FILTER,
+  createMatcher,
+  getAllTags,
+  getSortComparator,
+  isFilterActive,
+  parseTags,
+} from "./utils/search";
+import {
+  getMainCategory,
+  splitsMatchTotal,
+  toCategoryLines,
+} from "./utils/splits";
+import {
+  clearQuarantine,
+  createDefaultData,
+  getQuarantine,
+  loadData,
+  lockStorage,
+  queryExpenses,
+  saveData,
+  setPassphrase,
+  subscribeToChanges,
+  subscribeToVaultChanges,
+  type AppData,
+  type ExpenseQuery,
+} from "./utils/storage";
+import {
+  applyChanges,
+  applyListChanges,
+  getAccountKey,
+  getBudgetKey,
+  getCategoryKey,
+  getEnvelopeMoveKey,
+  getExpenseKey,
+  getGoalKey,
+  getRecurringKey,
+} from "./utils/changes";
+import {
+  DEFAULT_CURRENCY,
+  DEFAULT_RATES,
+  convert,
+  formatMoney,
+} from "./utils/currency";
+import { expensesToCsv } from "./utils/csv";
+import { downloadFile } from "./utils/download";
+import {
+  PERIOD_LABELS,
+  fromDateInputValue,
+  getDateRange,
+  isInRange,
+  toDateInputValue,
+  toTimeInputValue,
+  type PeriodPreset,
+} from "./utils/dateRange";
+import { monthStart } from "./utils/dates";
+import {
+  getAutoLockMinutes,
+  isVaultEnabled,
+  isVaultLocked,
+  setAutoLockMinutes,
+  unlockVault,
+  verifyPassphrase,
+} from "./utils/vault";
 
 import {
   Wallet,
@@ -16,6 +159,22 @@ import {
   Sparkles,
   Shield,
   Gamepad2,
+  Pencil,
+  Trash2,
+  Download,
+  Upload,
+  Landmark,
+  Repeat,
+  Tags,
+  Banknote,
+  DatabaseBackup,
+  Lock,
+  CreditCard,
+  ArrowLeftRight,
+  Paperclip,
+  PiggyBank,
+  FileBarChart,
+  AlertTriangle,
 } from "lucide-react";
 import {
   Chart as ChartJS,
@@ -25,8 +184,13 @@ import {
   CategoryScale,
   LinearScale,
   BarElement,
+  LineElement,
+  PointElement,
+  LineController,
+  BarController,
+  Filler,
 } from "chart.js";
-import { Pie, Bar } from "react-chartjs-2";
+import { Pie } from "react-chartjs-2";
 import QuotesLandingPage from "./components/quotes";
 
 ChartJS.register(
@@ -35,35 +199,105 @@ ChartJS.register(
   Legend,
   CategoryScale,
   LinearScale,
-  BarElement
+  BarElement,
+  LineElement,
+  PointElement,
+  LineController,
+  BarController,
+  Filler
 );
 
-type Expense = {
-  id: string;
-  amount: number;
-  category: string;
-  description: string;
-  date: string;
-};
+const LIST_PAGE_SIZE = 50;
 
-type Budget = {
-  category: string;
-  limit: number;
+const ENTRY_KIND_LABELS: Record<EntryKind, string> = {
+  expense: "Expense",
+  income: "Income",
+  transfer: "Transfer",
 };
 
+// New expenses default to today with no specific time
+const emptyExpenseForm = (currency: string, accountId: string) => ({
+  kind: "expense" as EntryKind,
+  amount: "",
+  currency,
+  category: "",
+  description: "",
+  date: toDateInputValue(new Date()),
+  time: "",
+  accountId,
+  toAccountId: "",
+  // Comma-separated as typed, parsed on save
+  tags: "",
+  attachments: [] as Attachment[],
+  // Empty unless the entry is split across categories
+  splits: [] as SplitLine[],
+});
+
 function App() {
   const [darkMode, setDarkMode] = useState(false);
   const [showWelcome, setShowWelcome] = useState(true);
   const [expenses, setExpenses] = useState<Expense[]>([]);
   const [budgets, setBudgets] = useState<Budget[]>([]);
+  const [recurring, setRecurring] = useState<RecurringTemplate[]>([]);
+  const [categoryList, setCategoryList] =
+    useState<Category[]>(DEFAULT_CATEGORIES);
+  const [accounts, setAccounts] = useState<Account[]>(() => [
+    createDefaultAccount(DEFAULT_CURRENCY),
+  ]);
+  const [goals, setGoals] = useState<SavingsGoal[]>([]);
+  const [envelopeMoves, setEnvelopeMoves] = useState<EnvelopeMove[]>([]);
+  const [envelopeSince, setEnvelopeSince] = useState<string | null>(null);
+  const [homeCurrency, setHomeCurrency] = useState(DEFAULT_CURRENCY);
+  const [exchangeRates, setExchangeRates] =
+    useState<ExchangeRates>(DEFAULT_RATES);
   const [showAddExpense, setShowAddExpense] = useState(false);
-  const [newExpense, setNewExpense] = useState({
-    amount: "",
-    category: "",
-    description: "",
-  });
+  const [newExpense, setNewExpense] = useState(() =>
+    emptyExpenseForm(DEFAULT_CURRENCY, "")
+  );
+  const [editingExpenseId, setEditingExpenseId] = useState<string | null>(null);
+  const [attachmentError, setAttachmentError] = useState("");
+  const [viewedAttachments, setViewedAttachments] = useState<{
+    attachments: Attachment[];
+    index: number;
+  } | null>(null);
+  const [deletedExpense, setDeletedExpense] = useState<{
+    expense: Expense;
+    index: number;
+  } | null>(null);
   const [showGame, setShowGame] = useState(false);
+  const [showBudgets, setShowBudgets] = useState(false);
+  const [showCsvImport, setShowCsvImport] = useState(false);
+  const [showStatementImport, setShowStatementImport] = useState(false);
+  const [showRecurring, setShowRecurring] = useState(false);
+  const [showCategories, setShowCategories] = useState(false);
+  const [showCurrencies, setShowCurrencies] = useState(false);
+  const [showBackup, setShowBackup] = useState(false);
+  const [showAccounts, setShowAccounts] = useState(false);
+  const [showGoals, setShowGoals] = useState(false);
+  const [showReport, setShowReport] = useState(false);
+  const [showVault, setShowVault] = useState(false);
+  const [locked, setLocked] = useState(isVaultLocked);
+  const [vaultEnabled, setVaultEnabled] = useState(isVaultEnabled);
+  const [autoLockMinutes, setAutoLockMinutesState] =
+    useState(getAutoLockMinutes);
   const [gameRewards, setGameRewards] = useState(0);
+  const [gameHighScore, setGameHighScore] = useState(0);
+  const [loaded, setLoaded] = useState(false);
+  const [loadFailed, setLoadFailed] = useState(false);
+  // Last data written to storage, so saves only write what changed
+  const savedData = useRef<AppData | null>(null);
+  const [savedRevision, setSavedRevision] = useState(0);
+  const [listLimit, setListLimit] = useState(LIST_PAGE_SIZE);
+  const [listPage, setListPage] = useState<Expense[]>([]);
+  const [listFailed, setListFailed] = useState(false);
+  const [quarantinedCount, setQuarantinedCount] = useState(0);
+  const [period, setPeriod] = useState<PeriodPreset>("all");
+  const [customRange, setCustomRange] = useState({ start: "", end: "" });
+  const [filter, setFilter] = useState<ExpenseFilter>(EMPTY_FILTER);
+  const [sort, setSort] = useState<SortOrder>("newest");
+  // Whether totals and charts follow the filter, or only the list does
+  const [filterCharts, setFilterCharts] = useState(false);
+  const [filterPresets, setFilterPresets] = useState<FilterPreset[]>([]);
 
   // Auto-transition after 3 seconds
   useEffect(() => {
@@ -77,123 +311,800 @@ function App() {
     }
   }, [showWelcome]);
 
-  // Load saved data
+  // Hide the undo toast after 5 seconds. The deletion can't be undone after
+  // that, so the entry's attachments go too.
   useEffect(() => {
-    const savedExpenses = localStorage.getItem("financeTrackerExpenses");
-    const savedBudgets = localStorage.getItem("financeTrackerBudgets");
-    const savedGameRewards = localStorage.getItem("financeGameRewards");
+    if (deletedExpense) {
+      const timer = setTimeout(() => {
+        removeAttachments(getAttachmentIds([deletedExpense.expense]));
+        setDeletedExpense(null);
+      }, 5000);
 
-    if (savedExpenses) {
-      setExpenses(JSON.parse(savedExpenses));
+      return () => clearTimeout(timer);
     }
+  }, [deletedExpense]);
 
-    if (savedBudgets) {
-      setBudgets(JSON.parse(savedBudgets));
-    }
+  // Load saved data, once the vault is unlocked
+  useEffect(() => {
+    if (locked) return;
 
-    if (savedGameRewards) {
-      setGameRewards(parseInt(savedGameRewards));
-    }
+    setLoadFailed(false);
+    loadData()
+      .then(({ data, quarantined }) => {
+        savedData.current = data;
 
-    // Check user preference for dark mode
-    const savedDarkMode = localStorage.getItem("financeTrackerDarkMode");
-    if (savedDarkMode) {
-      setDarkMode(savedDarkMode === "true");
-    } else {
-      // Check system preference
-      const prefersDarkMode = window.matchMedia(
-        "(prefers-color-scheme: dark)"
-      ).matches;
-      setDarkMode(prefersDarkMode);
-    }
+        // Catch up on recurring occurrences that fell due while the app was closed
+        const { generated, templates } = materializeRecurring(data.recurring);
+
+        setExpenses([...generated, ...data.expenses]);
+        setRecurring(templates);
+        setBudgets(data.budgets);
+        setCategoryList(data.categories);
+        setAccounts(data.accounts);
+        setGoals(data.goals);
+        setEnvelopeMoves(data.envelopeMoves);
+        setHomeCurrency(data.homeCurrency);
+        setExchangeRates(data.exchangeRates);
+        setFilterPresets(data.filterPresets);
+        setEnvelopeSince(data.envelopeSince);
+        setGameRewards(data.gameRewards);
+        setGameHighScore(data.gameHighScore);
+        setQuarantinedCount(quarantined.length);
+
+        // Fall back to the system preference for dark mode
+        setDarkMode(
+          data.darkMode ??
+            window.matchMedia("(prefers-color-scheme: dark)").matches
+        );
+        setLoaded(true);
+      })
+      // Nothing is saved until data has loaded, so what is stored is safe
+      .catch((error) => {
+        console.error("Could not load data", error);
+        setLoadFailed(true);
+      });
+  }, [locked]);
+
+  // Locking drops the decrypted data from memory. It is loaded again on
+  // unlock.
+  const lock = useCallback(() => {
+    lockStorage();
+    savedData.current = null;
+    setLoaded(false);
+
+    const empty = createDefaultData();
+    setExpenses(empty.expenses);
+    setBudgets(empty.budgets);
+    setRecurring(empty.recurring);
+    setCategoryList(empty.categories);
+    setAccounts(empty.accounts);
+    setGoals(empty.goals);
+    setEnvelopeMoves(empty.envelopeMoves);
+    setHomeCurrency(empty.homeCurrency);
+    setExchangeRates(empty.exchangeRates);
+    setFilterPresets(empty.filterPresets);
+    setEnvelopeSince(empty.envelopeSince);
+    setGameRewards(empty.gameRewards);
+    setGameHighScore(empty.gameHighScore);
+    setListPage([]);
+    setDeletedExpense(null);
+    setQuarantinedCount(0);
+    setShowVault(false);
+    setLocked(true);
   }, []);
 
-  // Save data when it changes
+  // Lock after a period without any input
   useEffect(() => {
-    localStorage.setItem("financeTrackerExpenses", JSON.stringify(expenses));
-  }, [expenses]);
+    if (locked || !vaultEnabled) return;
 
-  useEffect(() => {
-    localStorage.setItem("financeTrackerBudgets", JSON.stringify(budgets));
-  }, [budgets]);
+    let timer = setTimeout(lock, autoLockMinutes * 60 * 1000);
+    const resetTimer = () => {
+      clearTimeout(timer);
+      timer = setTimeout(lock, autoLockMinutes * 60 * 1000);
+    };
+    const events = [
+      "mousemove",
+      "mousedown",
+      "keydown",
+      "touchstart",
+      "scroll",
+    ];
+    events.forEach((event) => window.addEventListener(event, resetTimer));
 
-  useEffect(() => {
-    localStorage.setItem("financeGameRewards", gameRewards.toString());
-  }, [gameRewards]);
+    return () => {
+      clearTimeout(timer);
+      events.forEach((event) => window.removeEventListener(event, resetTimer));
+    };
+  }, [locked, vaultEnabled, autoLockMinutes, lock]);
+
+  // Another tab turned the vault on or off, or changed the passphrase. The
+  // key held here may be stale, so lock and ask for the passphrase again.
+  useEffect(
+    () =>
+      subscribeToVaultChanges(() => {
+        setVaultEnabled(isVaultEnabled());
+        setAutoLockMinutesState(getAutoLockMinutes());
+        if (isVaultEnabled()) lock();
+      }),
+    [lock]
+  );
+
+  // Apply changes saved in other tabs. The saved copy gets the same objects
+  // as the state, so they aren't seen as local edits and saved again.
+  useEffect(
+    () =>
+      subscribeToChanges((changes) => {
+        // Until the data is loaded there is nothing to apply them to, and
+        // loading reads them from storage anyway
+        if (!savedData.current) return;
+        savedData.current = applyChanges(savedData.current, changes);
+
+        setExpenses((prev) =>
+          applyListChanges(prev, changes.expenses, getExpenseKey)
+        );
+        setBudgets((prev) =>
+          applyListChanges(prev, changes.budgets, getBudgetKey)
+        );
+        setRecurring((prev) =>
+          applyListChanges(prev, changes.recurring, getRecurringKey)
+        );
+        setCategoryList((prev) =>
+          applyListChanges(prev, changes.categories, getCategoryKey)
+        );
+        setAccounts((prev) =>
+          applyListChanges(prev, changes.accounts, getAccountKey)
+        );
+        setGoals((prev) => applyListChanges(prev, changes.goals, getGoalKey));
+        setEnvelopeMoves((prev) =>
+          applyListChanges(prev, changes.envelopeMoves, getEnvelopeMoveKey)
+        );
+
+        const { settings } = changes;
+        if (settings.homeCurrency !== undefined) {
+          setHomeCurrency(settings.homeCurrency);
+        }
+        if (settings.exchangeRates !== undefined) {
+          setExchangeRates(settings.exchangeRates);
+        }
+        if (settings.filterPresets !== undefined) {
+          setFilterPresets(settings.filterPresets);
+        }
+        if (settings.envelopeSince !== undefined) {
+          setEnvelopeSince(settings.envelopeSince);
+        }
+        if (settings.gameRewards !== undefined) {
+          setGameRewards(settings.gameRewards);
+        }
+        if (settings.gameHighScore !== undefined) {
+          setGameHighScore(settings.gameHighScore);
+        }
+        if (typeof settings.darkMode === "boolean") {
+          setDarkMode(settings.darkMode);
+        }
+      }),
+    []
+  );
+
+  // Save data when it changes. Nothing is written until the saved data has
+  // been loaded, so the initial empty state can't overwrite it.
+  const appData: AppData = useMemo(
+    () => ({
+      expenses,
+      budgets,
+      recurring,
+      categories: categoryList,
+      accounts,
+      goals,
+      envelopeMoves,
+      homeCurrency,
+      exchangeRates,
+      filterPresets,
+      envelopeSince,
+      gameRewards,
+      gameHighScore,
+      darkMode,
+    }),
+    [
+      expenses,
+      budgets,
+      recurring,
+      categoryList,
+      accounts,
+      goals,
+      envelopeMoves,
+      homeCurrency,
+      exchangeRates,
+      filterPresets,
+      envelopeSince,
+      gameRewards,
+      gameHighScore,
+      darkMode,
+    ]
+  );
 
   useEffect(() => {
-    localStorage.setItem("financeTrackerDarkMode", darkMode.toString());
-  }, [darkMode]);
-
-  const categories = [
-    "Food & Dining",
-    "Transportation",
-    "Shopping",
-    "Entertainment",
-    "Bills & Utilities",
-    "Others",
-  ];
+    if (!loaded) return;
+
+    saveData(savedData.current, appData).then((saved) => {
+      if (!saved) return;
+      savedData.current = appData;
+      setSavedRevision((revision) => revision + 1);
+    });
+  }, [loaded, appData]);
+
+  // Categories offered when recording new entries
+  const categories = getActiveCategoryNames(categoryList, "expense");
+  const incomeCategories = getActiveCategoryNames(categoryList, "income");
+
+  // An archived category stays selectable on entries already filed under it
+  const activeFormCategories =
+    newExpense.kind === "income" ? incomeCategories : categories;
+  const expenseFormCategories =
+    newExpense.category && !activeFormCategories.includes(newExpense.category)
+      ? [...activeFormCategories, newExpense.category]
+      : activeFormCategories;
+
+  // Every currency with a rate, plus any already used on an entry
+  const currencies = Array.from(
+    new Set([
+      exchangeRates.base,
+      ...Object.keys(exchangeRates.rates),
+      ...expenses.map((expense) => expense.currency),
+    ])
+  ).sort();
+
+  // Totals, budgets and charts all work in the home currency
+  const toHomeCurrency = (expense: Expense): Expense => ({
+    ...expense,
+    amount: convert(
+      expense.amount,
+      expense.currency,
+      homeCurrency,
+      exchangeRates
+    ),
+    currency: homeCurrency,
+  });
+  // Category totals, budgets and charts count the lines of split entries
+  const homeExpenses = toCategoryLines(expenses).map(toHomeCurrency);
+
+  // Accounts offered when recording new entries. An archived account stays
+  // selectable on entries already recorded against it.
+  const activeAccounts = getActiveAccounts(accounts);
+  const defaultAccountId = activeAccounts[0]?.id || "";
+  const expenseFormAccounts = accounts.filter(
+    (account) =>
+      !account.archived ||
+      account.id === newExpense.accountId ||
+      account.id === newExpense.toAccountId
+  );
+
+  const accountBalances = Object.fromEntries(
+    accounts.map((account) => [
+      account.id,
+      getAccountBalance(account, expenses, exchangeRates),
+    ])
+  );
+  const usedAccountIds = accounts
+    .filter((account) =>
+      isAccountUsed(account.id, expenses, [...recurring, ...goals])
+    )
+    .map((account) => account.id);
+
+  const activeGoals = goals.filter((goal) => !goal.archived);
+
+  const getAccountName = (id?: string) =>
+    (id && findAccount(accounts, id)?.name) || "Unknown account";
+
+  const openAddExpense = () => {
+    setEditingExpenseId(null);
+    setNewExpense(emptyExpenseForm(homeCurrency, defaultAccountId));
+    setShowAddExpense(true);
+  };
+
+  const openEditExpense = (expense: Expense) => {
+    const date = new Date(expense.date);
+    const time = toTimeInputValue(date);
+
+    setEditingExpenseId(expense.id);
+    setNewExpense({
+      kind: expense.kind,
+      amount: expense.amount.toString(),
+      currency: expense.currency,
+      category: expense.category,
+      description: expense.description,
+      date: toDateInputValue(date),
+      time: time === "00:00" ? "" : time,
+      accountId: expense.accountId,
+      toAccountId: expense.toAccountId || "",
+      tags: (expense.tags || []).join(", "),
+      attachments: expense.attachments || [],
+      splits: (expense.splits || []).map((split) => ({
+        category: split.category,
+        amount: split.amount.toString(),
+      })),
+    });
+    setShowAddExpense(true);
+  };
+
+  const closeExpenseModal = () => {
+    setShowAddExpense(false);
+    setEditingExpenseId(null);
+    setNewExpense(emptyExpenseForm(homeCurrency, defaultAccountId));
+    setAttachmentError("");
+  };
+
+  // Attachments of the entry being edited, as last saved
+  const savedAttachmentIds = getAttachmentIds(
+    expenses.filter((expense) => expense.id === editingExpenseId)
+  );
+  const formAttachmentIds = newExpense.attachments.map(
+    (attachment) => attachment.id
+  );
+
+  // Files attached since the form was opened aren't kept when it is
+  // cancelled
+  const cancelExpenseModal = () => {
+    removeAttachments(
+      formAttachmentIds.filter((id) => !savedAttachmentIds.includes(id))
+    );
+    closeExpenseModal();
+  };
+
+  // Files are stored as soon as they are picked, so they can be previewed
+  const attachFiles = async (files: File[]) => {
+    setAttachmentError("");
+    for (const file of files) {
+      try {
+        const attachment = await addAttachment(file);
+        setNewExpense((prev) => ({
+          ...prev,
+          attachments: [...prev.attachments, attachment],
+        }));
+      } catch (error) {
+        setAttachmentError(
+          error instanceof Error ? error.message : "Could not attach the file"
+        );
+      }
+    }
+  };
+
+  const isTransfer = newExpense.kind === "transfer";
 
   const addExpense = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!newExpense.amount || !newExpense.category) return;
+    if (!newExpense.amount || !newExpense.date || !newExpense.accountId) return;
+
+    // Stored amounts are never negative; the entry's kind gives the sign
+    const amount = parseFloat(newExpense.amount);
+    if (!(amount > 0)) return;
+    const splits = isTransfer
+      ? []
+      : newExpense.splits.map((line) => ({
+          category: line.category,
+          amount: parseFloat(line.amount) || 0,
+        }));
+    if (isTransfer) {
+      if (
+        !newExpense.toAccountId ||
+        newExpense.toAccountId === newExpense.accountId
+      ) {
+        return;
+      }
+    } else if (splits.length > 0) {
+      if (
+        splits.some((split) => !split.category) ||
+        !splitsMatchTotal(splits, amount)
+      ) {
+        return;
+      }
+    } else if (!newExpense.category) {
+      return;
+    }
+
+    const tags = parseTags(newExpense.tags);
 
-    const expense: Expense = {
-      id: Date.now().toString(),
-      amount: parseFloat(newExpense.amount),
-      category: newExpense.category,
+    // Transfers have no category, and only transfers have a receiving account
+    const fields = {
+      kind: newExpense.kind,
+      amount,
+      currency: newExpense.currency,
+      category: isTransfer
+        ? ""
+        : splits.length > 0
+        ? getMainCategory(splits)
+        : newExpense.category,
       description: newExpense.description,
-      date: new Date().toISOString(),
+      date: fromDateInputValue(newExpense.date, newExpense.time).toISOString(),
+      accountId: newExpense.accountId,
+      toAccountId: isTransfer ? newExpense.toAccountId : undefined,
+      splits: splits.length > 0 ? splits : undefined,
+      tags: tags.length > 0 ? tags : undefined,
+      attachments:
+        newExpense.attachments.length > 0 ? newExpense.attachments : undefined,
     };
 
-    setExpenses([expense, ...expenses]);
-    setNewExpense({ amount: "", category: "", description: "" });
-    setShowAddExpense(false);
+    // The form's files are on a saved entry now
+    releaseAttachments(formAttachmentIds);
+
+    if (editingExpenseId) {
+      // Files taken off the entry aren't needed any more
+      removeAttachments(
+        savedAttachmentIds.filter((id) => !formAttachmentIds.includes(id))
+      );
+      // Keep the original id when editing
+      setExpenses((prev) =>
+        prev.map((expense) =>
+          expense.id === editingExpenseId ? { ...expense, ...fields } : expense
+        )
+      );
+    } else {
+      const expense: Expense = { id: Date.now().toString(), ...fields };
+
+      setExpenses((prev) => [expense, ...prev]);
+    }
+
+    closeExpenseModal();
+  };
+
+  const deleteExpense = (id: string) => {
+    const index = expenses.findIndex((expense) => expense.id === id);
+    if (index === -1) return;
+
+    // Only the latest deletion can be undone
+    if (deletedExpense) {
+      removeAttachments(getAttachmentIds([deletedExpense.expense]));
+    }
+    // The entry's files stay until the deletion can't be undone
+    holdAttachments(getAttachmentIds([expenses[index]]));
+    setDeletedExpense({ expense: expenses[index], index });
+    setExpenses(expenses.filter((expense) => expense.id !== id));
+  };
+
+  const undoDeleteExpense = () => {
+    if (!deletedExpense) return;
+
+    // Put the expense back where it was in the list
+    const { expense, index } = deletedExpense;
+    releaseAttachments(getAttachmentIds([expense]));
+    setExpenses((prev) => [
+      ...prev.slice(0, index),
+      expense,
+      ...prev.slice(index),
+    ]);
+    setDeletedExpense(null);
+  };
+
+  const importExpenses = (imported: Expense[]) => {
+    setExpenses((prev) => [...imported, ...prev]);
+    setShowCsvImport(false);
+    setShowStatementImport(false);
+  };
+
+  const exportExpenses = () => {
+    downloadFile(
+      expensesToCsv(matchingExpenses, accounts),
+      `expenses-${toDateInputValue(new Date())}.csv`,
+      "text/csv"
+    );
+  };
+
+  const saveRecurring = (template: RecurringTemplate) => {
+    // Record any occurrences that are already due, e.g. a past start date
+    const { generated, templates } = materializeRecurring([template]);
+
+    setRecurring((prev) => [
+      ...prev.filter((t) => t.id !== template.id),
+      ...templates,
+    ]);
+    setExpenses((prev) => [...generated, ...prev]);
+  };
+
+  const deleteRecurring = (id: string) => {
+    // Entries already generated from the template are kept
+    setRecurring((prev) => prev.filter((template) => template.id !== id));
+  };
+
+  const saveCategory = (originalName: string | null, category: Category) => {
+    setCategoryList((prev) =>
+      originalName
+        ? prev.map((c) => (c.name === originalName ? category : c))
+        : [...prev, category]
+    );
+
+    // A rename is carried over to everything filed under the old name
+    if (originalName && originalName !== category.name) {
+      setExpenses((prev) => replaceCategory(prev, originalName, category.name));
+      setBudgets((prev) => replaceCategory(prev, originalName, category.name));
+      setRecurring((prev) =>
+        replaceCategory(prev, originalName, category.name)
+      );
+      setEnvelopeMoves((prev) =>
+        renameEnvelope(prev, originalName, category.name)
+      );
+    }
+  };
+
+  const mergeCategory = (from: string, to: string) => {
+    setCategoryList((prev) => prev.filter((c) => c.name !== from));
+    setExpenses((prev) => replaceCategory(prev, from, to));
+    setBudgets((prev) => mergeBudgets(prev, from, to));
+    setRecurring((prev) => replaceCategory(prev, from, to));
+    setEnvelopeMoves((prev) => renameEnvelope(prev, from, to));
+  };
+
+  const saveAccount = (account: Account) => {
+    setAccounts((prev) =>
+      prev.some((a) => a.id === account.id)
+        ? prev.map((a) => (a.id === account.id ? account : a))
+        : [...prev, account]
+    );
+  };
+
+  // Only accounts nothing refers to can be deleted; the rest are archived
+  const deleteAccount = (id: string) => {
+    if (usedAccountIds.includes(id)) return;
+    setAccounts((prev) => prev.filter((account) => account.id !== id));
+  };
+
+  const saveGoal = (goal: SavingsGoal) => {
+    setGoals((prev) =>
+      prev.some((g) => g.id === goal.id)
+        ? prev.map((g) => (g.id === goal.id ? goal : g))
+        : [...prev, goal]
+    );
+  };
+
+  const deleteGoal = (id: string) => {
+    setGoals((prev) => prev.filter((goal) => goal.id !== id));
+  };
+
+  // Envelopes are tracked from the start of the month the mode is turned on
+  const setEnvelopeMode = (enabled: boolean) => {
+    setEnvelopeSince(enabled ? monthStart(new Date()).toISOString() : null);
+  };
+
+  const addEnvelopeMove = (move: EnvelopeMove) => {
+    setEnvelopeMoves((prev) => [...prev, move]);
+  };
+
+  const restoreData = (data: AppData) => {
+    const { generated, templates } = materializeRecurring(data.recurring);
+
+    setExpenses([...generated, ...data.expenses]);
+    setRecurring(templates);
+    setBudgets(data.budgets);
+    setCategoryList(data.categories);
+    setAccounts(data.accounts);
+    setGoals(data.goals);
+    setEnvelopeMoves(data.envelopeMoves);
+    setHomeCurrency(data.homeCurrency);
+    setExchangeRates(data.exchangeRates);
+    setFilterPresets(data.filterPresets);
+    setEnvelopeSince(data.envelopeSince);
+    setGameRewards(data.gameRewards);
+    setGameHighScore(data.gameHighScore);
+    if (data.darkMode !== null) setDarkMode(data.darkMode);
+    setShowBackup(false);
+  };
+
+  const exportQuarantine = async () => {
+    downloadFile(
+      JSON.stringify(await getQuarantine(), null, 2),
+      `unreadable-data-${toDateInputValue(new Date())}.json`,
+      "application/json"
+    );
+  };
+
+  // Re-encrypts everything stored, so the current data becomes the saved data
+  const changePassphrase = async (current: string, next: string | null) => {
+    if (vaultEnabled && !(await verifyPassphrase(current))) return false;
+    await setPassphrase(next, appData);
+    savedData.current = appData;
+    setVaultEnabled(isVaultEnabled());
+    return true;
+  };
+
+  const changeAutoLock = (minutes: number) => {
+    setAutoLockMinutes(minutes);
+    setAutoLockMinutesState(minutes);
+  };
+
+  const discardQuarantine = () => {
+    clearQuarantine();
+    setQuarantinedCount(0);
+  };
+
+  // Insights look at all the data, whatever period is selected
+  const insights = useMemo(() => {
+    const inHomeCurrency = (expense: Expense): Expense => ({
+      ...expense,
+      amount: convert(
+        expense.amount,
+        expense.currency,
+        homeCurrency,
+        exchangeRates
+      ),
+      currency: homeCurrency,
+    });
+    return getInsights({
+      expenses: expenses.map(inHomeCurrency),
+      lines: toCategoryLines(expenses).map(inHomeCurrency),
+      budgets,
+      currency: homeCurrency,
+    });
+  }, [expenses, budgets, homeCurrency, exchangeRates]);
+
+  // This month's projected spending, from all the data like the insights
+  const forecast = useMemo(() => {
+    const toHome = (amount: number, currency: string) =>
+      convert(amount, currency, homeCurrency, exchangeRates);
+    return getSpendingForecast({
+      lines: toCategoryLines(expenses).map((expense) => ({
+        ...expense,
+        amount: toHome(expense.amount, expense.currency),
+        currency: homeCurrency,
+      })),
+      recurring,
+      budgets,
+      toHomeCurrency: toHome,
+    });
+  }, [expenses, recurring, budgets, homeCurrency, exchangeRates]);
+
+  // Filter the list down to the transactions behind an insight
+  const showInsightTransactions = (insight: Insight) => {
+    setFilter({ ...EMPTY_FILTER, ...insight.link.filter });
+    setSort("newest");
+    setPeriod("custom");
+    setCustomRange({ start: insight.link.start, end: insight.link.end });
+    setListLimit(LIST_PAGE_SIZE);
+    document
+      .getElementById("transactions")
+      ?.scrollIntoView({ behavior: "smooth" });
   };
 
   const handleGameFinish = (score: number) => {
     const reward = Math.floor(score / 10);
     setGameRewards((prev) => prev + reward);
+    setGameHighScore((prev) => Math.max(prev, score));
 
     alert(`You earned ${reward} finance points from the game!`);
   };
 
-  const totalExpenses = expenses.reduce(
-    (sum, expense) => sum + expense.amount,
-    0
+  const dateRange = useMemo(
+    () => getDateRange(period, customRange.start, customRange.end),
+    [period, customRange]
   );
 
-  const categoryData = categories.map((category) => {
-    return expenses
+  const filterActive = isFilterActive(filter);
+
+  // Searches and amount filters compare amounts in the home currency
+  const listQuery: ExpenseQuery = useMemo(() => {
+    const getAmount = (expense: Expense) =>
+      convert(expense.amount, expense.currency, homeCurrency, exchangeRates);
+    const matches = createMatcher(filter, {
+      getAmount,
+      getAccountName: (id) =>
+        (id && findAccount(accounts, id)?.name) || "Unknown account",
+    });
+
+    return {
+      range: dateRange,
+      matches: isFilterActive(filter) ? matches : undefined,
+      compare:
+        sort === "newest" ? undefined : getSortComparator(sort, getAmount),
+    };
+  }, [dateRange, filter, sort, homeCurrency, exchangeRates, accounts]);
+
+  // The transaction list is read from storage a page at a time
+  useEffect(() => {
+    if (!loaded) return;
+    let cancelled = false;
+
+    // One extra entry tells whether there is another page
+    queryExpenses(listQuery, 0, listLimit + 1)
+      .then((page) => {
+        if (cancelled) return;
+        setListPage(page);
+        setListFailed(false);
+      })
+      .catch((error) => {
+        console.error("Could not list transactions", error);
+        if (cancelled) return;
+        setListPage([]);
+        setListFailed(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [loaded, listQuery, listLimit, savedRevision]);
+
+  // Expenses in the selected period, newest first
+  const periodExpenses = expenses
+    .filter((expense) => isInRange(expense.date, dateRange))
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+
+  // The ones the list shows, in the list's order
+  const matchingExpenses = periodExpenses.filter(
+    (expense) => !listQuery.matches || listQuery.matches(expense)
+  );
+  if (listQuery.compare) matchingExpenses.sort(listQuery.compare);
+
+  // Totals and charts cover the whole period unless asked to follow the filter
+  const filteredExpenses =
+    filterCharts && filterActive ? matchingExpenses : periodExpenses;
+
+  const filteredHomeExpenses =
+    toCategoryLines(filteredExpenses).map(toHomeCurrency);
+
+  const cashFlow = getCashFlow(filteredHomeExpenses);
+  const totalExpenses = cashFlow.spending;
+
+  // Archived categories stay on the charts while they still have spending
+  const chartCategories = categoryList
+    .filter(
+      (category) =>
+        category.kind === "expense" &&
+        (!category.archived ||
+          filteredHomeExpenses.some(
+            (expense) =>
+              expense.kind === "expense" && expense.category === category.name
+          ))
+    )
+    .map((category) => category.name);
+
+  const categoryData = chartCategories.map((category) => {
+    return filteredHomeExpenses
+      .filter((expense) => expense.kind === "expense")
       .filter((expense) => expense.category === category)
       .reduce((sum, expense) => sum + expense.amount, 0);
   });
 
+  const budgetProgress = budgets.map((budget) => {
+    const spent = getBudgetSpent(budget, homeExpenses);
+    return { budget, spent, status: getBudgetStatus(spent, budget.limit) };
+  });
+
+  const envelopeSummary =
+    envelopeSince !== null
+      ? getEnvelopeSummary({
+          lines: homeExpenses,
+          budgets,
+          moves: envelopeMoves,
+          since: envelopeSince,
+        })
+      : null;
+
+  // In envelope mode, "over" means an envelope overspent past its balance
+  const overBudgetCount = envelopeSummary
+    ? envelopeSummary.envelopes.filter((envelope) => envelope.available < 0)
+        .length
+    : budgetProgress.filter(({ status }) => status === "over").length;
+
   const chartData = {
-    labels: categories,
+    labels: chartCategories,
     datasets: [
       {
         data: categoryData,
-        backgroundColor: [
-          "rgba(255, 99, 132, 0.8)",
-          "rgba(54, 162, 235, 0.8)",
-          "rgba(255, 206, 86, 0.8)",
-          "rgba(75, 192, 192, 0.8)",
-          "rgba(153, 102, 255, 0.8)",
-          "rgba(255, 159, 64, 0.8)",
-        ],
+        backgroundColor: chartCategories.map((category) =>
+          getCategoryColor(categoryList, category)
+        ),
       },
     ],
   };
 
-  const barData = {
-    labels: ["Last 7 Days"],
-    datasets: categories.map((category, index) => ({
-      label: category,
-      data: [categoryData[index]],
-      backgroundColor: chartData.datasets[0].backgroundColor[index],
-    })),
-  };
+  if (locked && !showWelcome) {
+    return (
+      <VaultUnlock
+        darkMode={darkMode}
+        onUnlock={async (passphrase) => {
+          const unlocked = await unlockVault(passphrase);
+          if (unlocked) setLocked(false);
+          return unlocked;
+        }}
+      />
+    );
+  }
 
   if (showWelcome) {
     return (
@@ -389,7 +1300,7 @@ function App() {
                                     darkMode ? "text-gray-400" : "text-gray-500"
                                   }`}
                                 >
-                                  AI-powered analysis
+                                  On-device analysis
                                 </p>
                               </div>
                             </div>
@@ -433,6 +1344,21 @@ function App() {
     );
   }
 
+  // Reports take over the page so printing shows nothing else
+  if (showReport) {
+    return (
+      <ReportView
+        darkMode={darkMode}
+        expenses={expenses.map(toHomeCurrency)}
+        lines={homeExpenses}
+        budgets={budgets}
+        currency={homeCurrency}
+        getColor={(category) => getCategoryColor(categoryList, category)}
+        onClose={() => setShowReport(false)}
+      />
+    );
+  }
+
   return (
     <div
       className={`min-h-screen relative ${
@@ -474,6 +1400,114 @@ function App() {
               >
                 <Gamepad2 className="h-5 w-5" />
               </button>
+              <button
+                onClick={() => setShowBudgets(!showBudgets)}
+                className={`p-2 rounded-lg ${
+                  darkMode ? "bg-gray-700" : "bg-gray-100"
+                }`}
+                title="Manage Budgets"
+              >
+                <Target className="h-5 w-5" />
+              </button>
+              <button
+                onClick={() => setShowRecurring(!showRecurring)}
+                className={`p-2 rounded-lg ${
+                  darkMode ? "bg-gray-700" : "bg-gray-100"
+                }`}
+                title="Recurring & Subscriptions"
+              >
+                <Repeat className="h-5 w-5" />
+              </button>
+              <button
+                onClick={() => setShowAccounts(!showAccounts)}
+                className={`p-2 rounded-lg ${
+                  darkMode ? "bg-gray-700" : "bg-gray-100"
+                }`}
+                title="Accounts"
+              >
+                <CreditCard className="h-5 w-5" />
+              </button>
+              <button
+                onClick={() => setShowGoals(!showGoals)}
+                className={`p-2 rounded-lg ${
+                  darkMode ? "bg-gray-700" : "bg-gray-100"
+                }`}
+                title="Savings Goals"
+              >
+                <PiggyBank className="h-5 w-5" />
+              </button>
+              <button
+                onClick={() => setShowReport(true)}
+                className={`p-2 rounded-lg ${
+                  darkMode ? "bg-gray-700" : "bg-gray-100"
+                }`}
+                title="Reports"
+              >
+                <FileBarChart className="h-5 w-5" />
+              </button>
+              <button
+                onClick={() => setShowCategories(!showCategories)}
+                className={`p-2 rounded-lg ${
+                  darkMode ? "bg-gray-700" : "bg-gray-100"
+                }`}
+                title="Manage Categories"
+              >
+                <Tags className="h-5 w-5" />
+              </button>
+              <button
+                onClick={() => setShowCurrencies(!showCurrencies)}
+                className={`p-2 rounded-lg ${
+                  darkMode ? "bg-gray-700" : "bg-gray-100"
+                }`}
+                title="Currencies & Exchange Rates"
+              >
+                <Banknote className="h-5 w-5" />
+              </button>
+              <button
+                onClick={() => setShowBackup(!showBackup)}
+                className={`p-2 rounded-lg ${
+                  darkMode ? "bg-gray-700" : "bg-gray-100"
+                }`}
+                title="Backup & Restore"
+              >
+                <DatabaseBackup className="h-5 w-5" />
+              </button>
+              <button
+                onClick={() => setShowVault(!showVault)}
+                className={`p-2 rounded-lg ${
+                  darkMode ? "bg-gray-700" : "bg-gray-100"
+                }`}
+                title="Privacy & Lock"
+              >
+                <Lock className="h-5 w-5" />
+              </button>
+              <button
+                onClick={() => setShowCsvImport(true)}
+                className={`p-2 rounded-lg ${
+                  darkMode ? "bg-gray-700" : "bg-gray-100"
+                }`}
+                title="Import CSV"
+              >
+                <Upload className="h-5 w-5" />
+              </button>
+              <button
+                onClick={() => setShowStatementImport(true)}
+                className={`p-2 rounded-lg ${
+                  darkMode ? "bg-gray-700" : "bg-gray-100"
+                }`}
+                title="Import Bank Statement"
+              >
+                <Landmark className="h-5 w-5" />
+              </button>
+              <button
+                onClick={exportExpenses}
+                className={`p-2 rounded-lg ${
+                  darkMode ? "bg-gray-700" : "bg-gray-100"
+                }`}
+                title="Export CSV"
+              >
+                <Download className="h-5 w-5" />
+              </button>
               <button
                 onClick={() => setDarkMode(!darkMode)}
                 className={`p-2 rounded-lg ${
@@ -487,7 +1521,7 @@ function App() {
                 )}
               </button>
               <button
-                onClick={() => setShowAddExpense(true)}
+                onClick={openAddExpense}
                 className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
               >
                 <Plus className="h-5 w-5 mr-2" />
@@ -521,11 +1555,156 @@ function App() {
             </div>
             <CoinCollectorGame
               darkMode={darkMode}
+              highScore={gameHighScore}
               onFinish={handleGameFinish}
             />
           </div>
         )}
 
+        {showBudgets && (
+          <div className="mb-8">
+            <BudgetManager
+              darkMode={darkMode}
+              categories={categories}
+              budgets={budgets}
+              expenses={homeExpenses}
+              currency={homeCurrency}
+              envelopeMode={envelopeSince !== null}
+              onEnvelopeModeChange={setEnvelopeMode}
+              onChange={setBudgets}
+              onClose={() => setShowBudgets(false)}
+            />
+          </div>
+        )}
+
+        {showRecurring && (
+          <div className="mb-8">
+            <RecurringManager
+              darkMode={darkMode}
+              categories={categories}
+              incomeCategories={incomeCategories}
+              templates={recurring}
+              accounts={accounts}
+              currencies={currencies}
+              homeCurrency={homeCurrency}
+              exchangeRates={exchangeRates}
+              onSave={saveRecurring}
+              onDelete={deleteRecurring}
+              onClose={() => setShowRecurring(false)}
+            />
+          </div>
+        )}
+
+        {showAccounts && (
+          <div className="mb-8">
+            <AccountManager
+              darkMode={darkMode}
+              accounts={accounts}
+              balances={accountBalances}
+              usedAccountIds={usedAccountIds}
+              currencies={currencies}
+              homeCurrency={homeCurrency}
+              onSave={saveAccount}
+              onDelete={deleteAccount}
+              onClose={() => setShowAccounts(false)}
+            />
+          </div>
+        )}
+
+        {showGoals && (
+          <div className="mb-8">
+            <GoalManager
+              darkMode={darkMode}
+              goals={goals}
+              accounts={accounts}
+              currencies={currencies}
+              homeCurrency={homeCurrency}
+              onSave={saveGoal}
+              onDelete={deleteGoal}
+              onClose={() => setShowGoals(false)}
+            />
+          </div>
+        )}
+
+        {showCategories && (
+          <div className="mb-8">
+            <CategoryManager
+              darkMode={darkMode}
+              categories={categoryList}
+              onSave={saveCategory}
+              onMerge={mergeCategory}
+              onClose={() => setShowCategories(false)}
+            />
+          </div>
+        )}
+
+        {showCurrencies && (
+          <div className="mb-8">
+            <CurrencySettings
+              darkMode={darkMode}
+              homeCurrency={homeCurrency}
+              exchangeRates={exchangeRates}
+              usedCurrencies={Array.from(
+                new Set(expenses.map((expense) => expense.currency))
+              )}
+              onHomeCurrencyChange={setHomeCurrency}
+              onRatesChange={setExchangeRates}
+              onClose={() => setShowCurrencies(false)}
+            />
+          </div>
+        )}
+
+        {showBackup && (
+          <div className="mb-8">
+            <BackupRestore
+              darkMode={darkMode}
+              data={appData}
+              onRestore={restoreData}
+              onClose={() => setShowBackup(false)}
+            />
+          </div>
+        )}
+
+        {showVault && (
+          <div className="mb-8">
+            <VaultSettings
+              darkMode={darkMode}
+              enabled={vaultEnabled}
+              autoLockMinutes={autoLockMinutes}
+              onSetPassphrase={changePassphrase}
+              onAutoLockChange={changeAutoLock}
+              onLockNow={lock}
+              onClose={() => setShowVault(false)}
+            />
+          </div>
+        )}
+
+        {loadFailed && (
+          <div
+            className={`mb-8 p-4 rounded-lg border flex items-start ${
+              darkMode
+                ? "bg-red-900/30 border-red-800 text-red-200"
+                : "bg-red-50 border-red-200 text-red-700"
+            }`}
+          >
+            <AlertTriangle className="h-6 w-6 mr-2 flex-shrink-0 text-red-500" />
+            <p className="text-sm">
+              Your saved data couldn't be loaded. Nothing will be saved until it
+              is, so reload the page to try again.
+            </p>
+          </div>
+        )}
+
+        {quarantinedCount > 0 && (
+          <QuarantineNotice
+            darkMode={darkMode}
+            count={quarantinedCount}
+            onExport={exportQuarantine}
+            onDiscard={discardQuarantine}
+            onDismiss={() => setQuarantinedCount(0)}
+          />
+        )}
+
         {/* Financial Rewards */}
         {gameRewards > 0 && (
           <div
@@ -560,6 +1739,24 @@ function App() {
           </div>
         )}
 
+        {/* Period Filter */}
+        <div className="mb-6">
+          <PeriodSelector
+            darkMode={darkMode}
+            period={period}
+            customStart={customRange.start}
+            customEnd={customRange.end}
+            onPeriodChange={(preset) => {
+              setPeriod(preset);
+              setListLimit(LIST_PAGE_SIZE);
+            }}
+            onCustomRangeChange={(start, end) => {
+              setCustomRange({ start, end });
+              setListLimit(LIST_PAGE_SIZE);
+            }}
+          />
+        </div>
+
         {/* Overview Cards */}
         <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-3 mb-8">
           <div
@@ -583,14 +1780,14 @@ function App() {
                         darkMode ? "text-gray-400" : "text-gray-500"
                       } truncate`}
                     >
-                      Total Expenses
+                      Total Expenses ({PERIOD_LABELS[period]})
                     </dt>
                     <dd
                       className={`text-lg font-semibold ${
                         darkMode ? "text-white" : "text-gray-900"
                       }`}
                     >
-                      ${totalExpenses.toFixed(2)}
+                      {formatMoney(totalExpenses, homeCurrency)}
                     </dd>
                   </dl>
                 </div>
@@ -663,6 +1860,11 @@ function App() {
                       }`}
                     >
                       {budgets.length}
+                      {overBudgetCount > 0 && (
+                        <span className="ml-2 text-sm font-medium text-red-500">
+                          ({overBudgetCount} over)
+                        </span>
+                      )}
                     </dd>
                   </dl>
                 </div>
@@ -671,6 +1873,86 @@ function App() {
           </div>
         </div>
 
+        <CashFlowSummary
+          darkMode={darkMode}
+          periodLabel={PERIOD_LABELS[period]}
+          currency={homeCurrency}
+          income={cashFlow.income}
+          spending={cashFlow.spending}
+          net={cashFlow.net}
+          savingsRate={cashFlow.savingsRate}
+        />
+
+        <InsightCards
+          darkMode={darkMode}
+          insights={insights}
+          onShowTransactions={showInsightTransactions}
+        />
+
+        <AccountBalances
+          darkMode={darkMode}
+          accounts={activeAccounts}
+          balances={accountBalances}
+          expenses={expenses}
+          homeCurrency={homeCurrency}
+          exchangeRates={exchangeRates}
+          range={dateRange}
+        />
+
+        {activeGoals.length > 0 && (
+          <SavingsGoals
+            darkMode={darkMode}
+            goals={activeGoals}
+            expenses={expenses}
+            exchangeRates={exchangeRates}
+            onSave={saveGoal}
+          />
+        )}
+
+        <SpendingForecastCard
+          darkMode={darkMode}
+          forecast={forecast}
+          currency={homeCurrency}
+        />
+
+        {/* Envelopes take the place of the budget status in envelope mode */}
+        {envelopeSummary && budgets.length > 0 && (
+          <EnvelopeBalances
+            darkMode={darkMode}
+            summary={envelopeSummary}
+            currency={homeCurrency}
+            onMove={addEnvelopeMove}
+          />
+        )}
+
+        {/* Budget Status */}
+        {!envelopeSummary && budgetProgress.length > 0 && (
+          <div
+            className={`${
+              darkMode ? "bg-gray-800" : "bg-white"
+            } p-6 rounded-lg shadow mb-8`}
+          >
+            <h3
+              className={`text-lg font-medium ${
+                darkMode ? "text-white" : "text-gray-900"
+              } mb-4`}
+            >
+              Budget Status
+            </h3>
+            <div className="space-y-4">
+              {budgetProgress.map(({ budget, spent }) => (
+                <BudgetProgress
+                  key={budget.category}
+                  darkMode={darkMode}
+                  budget={budget}
+                  spent={spent}
+                  currency={homeCurrency}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Charts */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
           <div
@@ -699,41 +1981,35 @@ function App() {
                 darkMode ? "text-white" : "text-gray-900"
               } mb-4`}
             >
-              Category Comparison
+              Spending Over Time
             </h3>
-            <div className="h-64">
-              <Bar
-                data={barData}
-                options={{
-                  maintainAspectRatio: false,
-                  scales: {
-                    y: {
-                      beginAtZero: true,
-                      ticks: {
-                        color: darkMode ? "#fff" : "#000",
-                      },
-                    },
-                    x: {
-                      ticks: {
-                        color: darkMode ? "#fff" : "#000",
-                      },
-                    },
-                  },
-                  plugins: {
-                    legend: {
-                      labels: {
-                        color: darkMode ? "#fff" : "#000",
-                      },
-                    },
-                  },
-                }}
-              />
-            </div>
+            <SpendingChart
+              darkMode={darkMode}
+              expenses={filteredHomeExpenses}
+              categories={chartCategories}
+              colors={chartData.datasets[0].backgroundColor}
+              budgets={budgets}
+              range={dateRange}
+              forecast={
+                (period === "month" || period === "all") &&
+                !(filterCharts && filterActive)
+                  ? forecast
+                  : undefined
+              }
+            />
           </div>
         </div>
 
+        <CalendarHeatmap
+          darkMode={darkMode}
+          lines={homeExpenses}
+          expenses={expenses.map(toHomeCurrency)}
+          currency={homeCurrency}
+        />
+
         {/* Expenses List */}
         <div
+          id="transactions"
           className={`${
             darkMode ? "bg-gray-800" : "bg-white"
           } shadow rounded-lg`}
@@ -744,63 +2020,221 @@ function App() {
                 darkMode ? "text-white" : "text-gray-900"
               } mb-4`}
             >
-              Recent Expenses
+              Recent Transactions
             </h3>
+            <ExpenseFilters
+              darkMode={darkMode}
+              filter={filter}
+              sort={sort}
+              categories={categoryList.map((category) => category.name)}
+              tags={getAllTags(expenses)}
+              presets={filterPresets}
+              applyToCharts={filterCharts}
+              onFilterChange={(next) => {
+                setFilter(next);
+                setListLimit(LIST_PAGE_SIZE);
+              }}
+              onSortChange={(next) => {
+                setSort(next);
+                setListLimit(LIST_PAGE_SIZE);
+              }}
+              onPresetsChange={setFilterPresets}
+              onApplyToChartsChange={setFilterCharts}
+            />
             <div className="flow-root">
               <ul
                 className={`-my-5 divide-y ${
                   darkMode ? "divide-gray-700" : "divide-gray-200"
                 }`}
               >
-                {expenses.map((expense) => (
+                {listPage.slice(0, listLimit).map((expense) => (
                   <li key={expense.id} className="py-4">
                     <div className="flex items-center space-x-4">
+                      {expense.kind === "transfer" ? (
+                        <span className="flex-shrink-0 h-8 w-8 rounded-full flex items-center justify-center bg-blue-500">
+                          <ArrowLeftRight className="h-4 w-4 text-white" />
+                        </span>
+                      ) : (
+                        <CategoryIcon
+                          category={findCategory(
+                            categoryList,
+                            expense.category
+                          )}
+                        />
+                      )}
                       <div className="flex-1 min-w-0">
                         <p
                           className={`text-sm font-medium ${
                             darkMode ? "text-white" : "text-gray-900"
                           } truncate`}
                         >
-                          {expense.description || expense.category}
+                          {expense.description ||
+                            (expense.kind === "transfer"
+                              ? "Transfer"
+                              : expense.category)}
                         </p>
                         <p
                           className={`text-sm ${
                             darkMode ? "text-gray-400" : "text-gray-500"
                           }`}
                         >
-                          {new Date(expense.date).toLocaleDateString()}
+                          {new Date(expense.date).toLocaleDateString()} ·{" "}
+                          {getAccountName(expense.accountId)}
+                          {expense.kind === "transfer" &&
+                            ` → ${getAccountName(expense.toAccountId)}`}
                         </p>
+                        {expense.tags && (
+                          <div className="mt-1 flex flex-wrap gap-1">
+                            {expense.tags.map((tag) => (
+                              <button
+                                key={tag}
+                                onClick={() => {
+                                  setFilter({ ...filter, tag });
+                                  setListLimit(LIST_PAGE_SIZE);
+                                }}
+                                className={`px-2 py-0.5 rounded-full text-xs ${
+                                  darkMode
+                                    ? "bg-gray-700 text-gray-300"
+                                    : "bg-gray-100 text-gray-600"
+                                }`}
+                                title={`Show only #${tag}`}
+                              >
+                                #{tag}
+                              </button>
+                            ))}
+                          </div>
+                        )}
+                        {expense.attachments && (
+                          <div className="mt-2 flex flex-wrap gap-2">
+                            {expense.attachments.map((attachment, index) => (
+                              <button
+                                key={attachment.id}
+                                onClick={() =>
+                                  setViewedAttachments({
+                                    attachments: expense.attachments || [],
+                                    index,
+                                  })
+                                }
+                                className={`h-10 w-10 rounded overflow-hidden ${
+                                  darkMode
+                                    ? "bg-gray-700 text-gray-300"
+                                    : "bg-gray-100 text-gray-600"
+                                }`}
+                                title={attachment.name}
+                              >
+                                <AttachmentPreview
+                                  attachment={attachment}
+                                  className="h-full w-full"
+                                />
+                              </button>
+                            ))}
+                          </div>
+                        )}
                       </div>
                       <div className="text-right">
                         <p
                           className={`text-sm font-semibold ${
-                            darkMode ? "text-white" : "text-gray-900"
+                            expense.kind === "income"
+                              ? "text-green-500"
+                              : expense.kind === "transfer"
+                              ? "text-blue-500"
+                              : darkMode
+                              ? "text-white"
+                              : "text-gray-900"
                           }`}
                         >
-                          ${expense.amount.toFixed(2)}
+                          {expense.kind === "income" && "+"}
+                          {formatMoney(
+                            convert(
+                              expense.amount,
+                              expense.currency,
+                              homeCurrency,
+                              exchangeRates
+                            ),
+                            homeCurrency
+                          )}
                         </p>
+                        {expense.currency !== homeCurrency && (
+                          <p
+                            className={`text-xs ${
+                              darkMode ? "text-gray-400" : "text-gray-500"
+                            }`}
+                          >
+                            {formatMoney(expense.amount, expense.currency)}
+                          </p>
+                        )}
                         <p
                           className={`text-sm ${
                             darkMode ? "text-gray-400" : "text-gray-500"
                           }`}
                         >
-                          {expense.category}
+                          {expense.kind === "transfer"
+                            ? "Transfer"
+                            : expense.splits
+                            ? `Split: ${expense.splits
+                                .map((split) => split.category)
+                                .join(", ")}`
+                            : expense.category}
                         </p>
                       </div>
+                      <div className="flex items-center space-x-1">
+                        <button
+                          onClick={() => openEditExpense(expense)}
+                          className={`p-2 rounded-lg ${
+                            darkMode
+                              ? "text-gray-400 hover:bg-gray-700"
+                              : "text-gray-500 hover:bg-gray-100"
+                          }`}
+                          title="Edit expense"
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => deleteExpense(expense.id)}
+                          className={`p-2 rounded-lg ${
+                            darkMode
+                              ? "text-red-400 hover:bg-gray-700"
+                              : "text-red-500 hover:bg-gray-100"
+                          }`}
+                          title="Delete expense"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </div>
                     </div>
                   </li>
                 ))}
-                {expenses.length === 0 && (
+                {listPage.length === 0 && (
                   <li
                     className={`py-4 text-center ${
                       darkMode ? "text-gray-400" : "text-gray-500"
                     }`}
                   >
-                    No expenses recorded yet
+                    {listFailed
+                      ? "Transactions couldn't be listed. Try changing the filters or reloading."
+                      : expenses.length === 0
+                      ? "No transactions recorded yet"
+                      : filterActive
+                      ? "No transactions match the filters"
+                      : "No transactions in this period"}
                   </li>
                 )}
               </ul>
             </div>
+            {listPage.length > listLimit && (
+              <div className="mt-6 text-center">
+                <button
+                  onClick={() => setListLimit(listLimit + LIST_PAGE_SIZE)}
+                  className={`px-4 py-2 rounded-md text-sm font-medium ${
+                    darkMode
+                      ? "bg-gray-700 text-white hover:bg-gray-600"
+                      : "bg-gray-100 text-gray-800 hover:bg-gray-200"
+                  }`}
+                >
+                  Show more
+                </button>
+              </div>
+            )}
           </div>
         </div>
 
@@ -821,7 +2255,7 @@ function App() {
         </div>
       </main>
 
-      {/* Add Expense Modal */}
+      {/* Add / Edit Expense Modal */}
       {showAddExpense && (
         <div className="fixed z-10 inset-0 overflow-y-auto">
           <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
@@ -833,7 +2267,7 @@ function App() {
             >
               <div className="absolute top-0 right-0 pt-4 pr-4">
                 <button
-                  onClick={() => setShowAddExpense(false)}
+                  onClick={cancelExpenseModal}
                   className={`${
                     darkMode ? "bg-gray-800" : "bg-white"
                   } rounded-md text-gray-400 hover:text-gray-500 focus:outline-none`}
@@ -842,7 +2276,53 @@ function App() {
                 </button>
               </div>
               <form onSubmit={addExpense}>
+                <h3
+                  className={`text-lg font-medium mb-4 ${
+                    darkMode ? "text-white" : "text-gray-900"
+                  }`}
+                >
+                  {editingExpenseId ? "Edit" : "Add"}{" "}
+                  {ENTRY_KIND_LABELS[newExpense.kind]}
+                </h3>
                 <div className="space-y-4">
+                  <div className="flex space-x-2">
+                    {(Object.keys(ENTRY_KIND_LABELS) as EntryKind[]).map(
+                      (kind) => (
+                        <button
+                          key={kind}
+                          type="button"
+                          onClick={() =>
+                            setNewExpense({
+                              ...newExpense,
+                              kind,
+                              // Expense and income use different categories
+                              category:
+                                kind === newExpense.kind
+                                  ? newExpense.category
+                                  : "",
+                              splits:
+                                kind === newExpense.kind
+                                  ? newExpense.splits
+                                  : [],
+                            })
+                          }
+                          className={`flex-1 px-4 py-2 rounded-md text-sm font-medium capitalize ${
+                            newExpense.kind === kind
+                              ? kind === "income"
+                                ? "bg-green-600 text-white"
+                                : kind === "transfer"
+                                ? "bg-blue-600 text-white"
+                                : "bg-indigo-600 text-white"
+                              : darkMode
+                              ? "bg-gray-700 text-gray-300"
+                              : "bg-gray-100 text-gray-700"
+                          }`}
+                        >
+                          {kind}
+                        </button>
+                      )
+                    )}
+                  </div>
                   <div>
                     <label
                       htmlFor="amount"
@@ -850,41 +2330,275 @@ function App() {
                         darkMode ? "text-gray-200" : "text-gray-700"
                       }`}
                     >
-                      Amount ($)
+                      Amount
                     </label>
-                    <input
-                      type="number"
-                      id="amount"
-                      step="0.01"
-                      required
-                      value={newExpense.amount}
-                      onChange={(e) =>
-                        setNewExpense({ ...newExpense, amount: e.target.value })
+                    <div className="mt-1 flex space-x-2">
+                      <input
+                        type="number"
+                        id="amount"
+                        step="0.01"
+                        min="0.01"
+                        required
+                        value={newExpense.amount}
+                        onChange={(e) =>
+                          setNewExpense({
+                            ...newExpense,
+                            amount: e.target.value,
+                          })
+                        }
+                        className={`block w-full border ${
+                          darkMode
+                            ? "bg-gray-700 border-gray-600 text-white"
+                            : "border-gray-300"
+                        } rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm`}
+                      />
+                      <select
+                        aria-label="Currency"
+                        value={newExpense.currency}
+                        onChange={(e) =>
+                          setNewExpense({
+                            ...newExpense,
+                            currency: e.target.value,
+                          })
+                        }
+                        className={`block w-28 border ${
+                          darkMode
+                            ? "bg-gray-700 border-gray-600 text-white"
+                            : "border-gray-300"
+                        } rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm`}
+                      >
+                        {currencies.map((currency) => (
+                          <option key={currency} value={currency}>
+                            {currency}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+                  <div className={isTransfer ? "grid grid-cols-2 gap-4" : ""}>
+                    <div>
+                      <label
+                        htmlFor="account"
+                        className={`block text-sm font-medium ${
+                          darkMode ? "text-gray-200" : "text-gray-700"
+                        }`}
+                      >
+                        {isTransfer ? "From Account" : "Account"}
+                      </label>
+                      <select
+                        id="account"
+                        required
+                        value={newExpense.accountId}
+                        onChange={(e) =>
+                          setNewExpense({
+                            ...newExpense,
+                            accountId: e.target.value,
+                            // Entries are usually in the account's currency
+                            currency:
+                              findAccount(accounts, e.target.value)?.currency ||
+                              newExpense.currency,
+                          })
+                        }
+                        className={`mt-1 block w-full border ${
+                          darkMode
+                            ? "bg-gray-700 border-gray-600 text-white"
+                            : "border-gray-300"
+                        } rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm`}
+                      >
+                        {expenseFormAccounts.map((account) => (
+                          <option key={account.id} value={account.id}>
+                            {account.name}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    {isTransfer && (
+                      <div>
+                        <label
+                          htmlFor="to-account"
+                          className={`block text-sm font-medium ${
+                            darkMode ? "text-gray-200" : "text-gray-700"
+                          }`}
+                        >
+                          To Account
+                        </label>
+                        <select
+                          id="to-account"
+                          required
+                          value={newExpense.toAccountId}
+                          onChange={(e) =>
+                            setNewExpense({
+                              ...newExpense,
+                              toAccountId: e.target.value,
+                            })
+                          }
+                          className={`mt-1 block w-full border ${
+                            darkMode
+                              ? "bg-gray-700 border-gray-600 text-white"
+                              : "border-gray-300"
+                          } rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm`}
+                        >
+                          <option value="">Select an account</option>
+                          {expenseFormAccounts
+                            .filter(
+                              (account) => account.id !== newExpense.accountId
+                            )
+                            .map((account) => (
+                              <option key={account.id} value={account.id}>
+                                {account.name}
+                              </option>
+                            ))}
+                        </select>
+                      </div>
+                    )}
+                  </div>
+                  {!isTransfer && newExpense.splits.length > 0 && (
+                    <SplitEditor
+                      darkMode={darkMode}
+                      categories={activeFormCategories}
+                      lines={newExpense.splits}
+                      total={parseFloat(newExpense.amount) || 0}
+                      currency={newExpense.currency}
+                      onChange={(splits) =>
+                        setNewExpense({ ...newExpense, splits })
+                      }
+                      onCancel={() =>
+                        setNewExpense({
+                          ...newExpense,
+                          category: getMainCategory(
+                            newExpense.splits.map((line) => ({
+                              category: line.category,
+                              amount: parseFloat(line.amount) || 0,
+                            }))
+                          ),
+                          splits: [],
+                        })
                       }
-                      className={`mt-1 block w-full border ${
-                        darkMode
-                          ? "bg-gray-700 border-gray-600 text-white"
-                          : "border-gray-300"
-                      } rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm`}
                     />
+                  )}
+                  {!isTransfer && newExpense.splits.length === 0 && (
+                    <div>
+                      <div className="flex items-center justify-between">
+                        <label
+                          htmlFor="category"
+                          className={`block text-sm font-medium ${
+                            darkMode ? "text-gray-200" : "text-gray-700"
+                          }`}
+                        >
+                          Category
+                        </label>
+                        <button
+                          type="button"
+                          onClick={() =>
+                            setNewExpense({
+                              ...newExpense,
+                              // Start with the whole amount on the current
+                              // category and an empty second line
+                              splits: [
+                                {
+                                  category: newExpense.category,
+                                  amount: newExpense.amount,
+                                },
+                                { category: "", amount: "" },
+                              ],
+                            })
+                          }
+                          className="text-sm text-indigo-500 hover:text-indigo-600"
+                        >
+                          Split
+                        </button>
+                      </div>
+                      <select
+                        id="category"
+                        required
+                        value={newExpense.category}
+                        onChange={(e) =>
+                          setNewExpense({
+                            ...newExpense,
+                            category: e.target.value,
+                          })
+                        }
+                        className={`mt-1 block w-full border ${
+                          darkMode
+                            ? "bg-gray-700 border-gray-600 text-white"
+                            : "border-gray-300"
+                        } rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm`}
+                      >
+                        <option value="">Select a category</option>
+                        {expenseFormCategories.map((category) => (
+                          <option key={category} value={category}>
+                            {category}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label
+                        htmlFor="date"
+                        className={`block text-sm font-medium ${
+                          darkMode ? "text-gray-200" : "text-gray-700"
+                        }`}
+                      >
+                        Date
+                      </label>
+                      <input
+                        type="date"
+                        id="date"
+                        required
+                        value={newExpense.date}
+                        onChange={(e) =>
+                          setNewExpense({ ...newExpense, date: e.target.value })
+                        }
+                        className={`mt-1 block w-full border ${
+                          darkMode
+                            ? "bg-gray-700 border-gray-600 text-white"
+                            : "border-gray-300"
+                        } rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm`}
+                      />
+                    </div>
+                    <div>
+                      <label
+                        htmlFor="time"
+                        className={`block text-sm font-medium ${
+                          darkMode ? "text-gray-200" : "text-gray-700"
+                        }`}
+                      >
+                        Time (Optional)
+                      </label>
+                      <input
+                        type="time"
+                        id="time"
+                        value={newExpense.time}
+                        onChange={(e) =>
+                          setNewExpense({ ...newExpense, time: e.target.value })
+                        }
+                        className={`mt-1 block w-full border ${
+                          darkMode
+                            ? "bg-gray-700 border-gray-600 text-white"
+                            : "border-gray-300"
+                        } rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm`}
+                      />
+                    </div>
                   </div>
                   <div>
                     <label
-                      htmlFor="category"
+                      htmlFor="description"
                       className={`block text-sm font-medium ${
                         darkMode ? "text-gray-200" : "text-gray-700"
                       }`}
                     >
-                      Category
+                      Description (Optional)
                     </label>
-                    <select
-                      id="category"
-                      required
-                      value={newExpense.category}
+                    <input
+                      type="text"
+                      id="description"
+                      value={newExpense.description}
                       onChange={(e) =>
                         setNewExpense({
                           ...newExpense,
-                          category: e.target.value,
+                          description: e.target.value,
                         })
                       }
                       className={`mt-1 block w-full border ${
@@ -892,32 +2606,26 @@ function App() {
                           ? "bg-gray-700 border-gray-600 text-white"
                           : "border-gray-300"
                       } rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm`}
-                    >
-                      <option value="">Select a category</option>
-                      {categories.map((category) => (
-                        <option key={category} value={category}>
-                          {category}
-                        </option>
-                      ))}
-                    </select>
+                    />
                   </div>
                   <div>
                     <label
-                      htmlFor="description"
+                      htmlFor="tags"
                       className={`block text-sm font-medium ${
                         darkMode ? "text-gray-200" : "text-gray-700"
                       }`}
                     >
-                      Description (Optional)
+                      Tags (Optional)
                     </label>
                     <input
                       type="text"
-                      id="description"
-                      value={newExpense.description}
+                      id="tags"
+                      placeholder="e.g. trip, work"
+                      value={newExpense.tags}
                       onChange={(e) =>
                         setNewExpense({
                           ...newExpense,
-                          description: e.target.value,
+                          tags: e.target.value,
                         })
                       }
                       className={`mt-1 block w-full border ${
@@ -927,13 +2635,91 @@ function App() {
                       } rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm`}
                     />
                   </div>
+                  <div>
+                    <span
+                      className={`block text-sm font-medium ${
+                        darkMode ? "text-gray-200" : "text-gray-700"
+                      }`}
+                    >
+                      Receipts (Optional)
+                    </span>
+                    <div className="mt-1 flex flex-wrap gap-2">
+                      {newExpense.attachments.map((attachment, index) => (
+                        <div key={attachment.id} className="relative">
+                          <button
+                            type="button"
+                            onClick={() =>
+                              setViewedAttachments({
+                                attachments: newExpense.attachments,
+                                index,
+                              })
+                            }
+                            className={`h-16 w-16 rounded-md overflow-hidden ${
+                              darkMode
+                                ? "bg-gray-700 text-gray-300"
+                                : "bg-gray-100 text-gray-600"
+                            }`}
+                            title={attachment.name}
+                          >
+                            <AttachmentPreview
+                              attachment={attachment}
+                              className="h-full w-full"
+                            />
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() =>
+                              setNewExpense({
+                                ...newExpense,
+                                attachments: newExpense.attachments.filter(
+                                  (a) => a.id !== attachment.id
+                                ),
+                              })
+                            }
+                            className="absolute -top-2 -right-2 rounded-full bg-red-500 text-white p-0.5"
+                            title="Remove attachment"
+                          >
+                            <X className="h-3 w-3" />
+                          </button>
+                        </div>
+                      ))}
+                      <label
+                        className={`h-16 w-16 flex flex-col items-center justify-center border-2 border-dashed rounded-md cursor-pointer text-xs ${
+                          darkMode
+                            ? "border-gray-600 text-gray-300"
+                            : "border-gray-300 text-gray-600"
+                        }`}
+                        title="Attach a receipt image or PDF"
+                      >
+                        <Paperclip className="h-4 w-4 mb-1" />
+                        Attach
+                        <input
+                          type="file"
+                          accept={ATTACHMENT_TYPES}
+                          multiple
+                          className="hidden"
+                          onChange={(e) => {
+                            attachFiles(Array.from(e.target.files || []));
+                            e.target.value = "";
+                          }}
+                        />
+                      </label>
+                    </div>
+                    {attachmentError && (
+                      <p className="mt-1 text-sm text-red-500">
+                        {attachmentError}
+                      </p>
+                    )}
+                  </div>
                 </div>
                 <div className="mt-5 sm:mt-6">
                   <button
                     type="submit"
                     className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-indigo-600 text-base font-medium text-white hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 sm:text-sm"
                   >
-                    Add Expense
+                    {editingExpenseId
+                      ? "Save Changes"
+                      : `Add ${ENTRY_KIND_LABELS[newExpense.kind]}`}
                   </button>
                 </div>
               </form>
@@ -941,6 +2727,56 @@ function App() {
           </div>
         </div>
       )}
+
+      {showCsvImport && (
+        <CsvImport
+          darkMode={darkMode}
+          categories={categories}
+          incomeCategories={incomeCategories}
+          expenses={expenses}
+          accounts={activeAccounts}
+          homeCurrency={homeCurrency}
+          onImport={importExpenses}
+          onClose={() => setShowCsvImport(false)}
+        />
+      )}
+
+      {showStatementImport && (
+        <StatementImport
+          darkMode={darkMode}
+          categories={categories}
+          incomeCategories={incomeCategories}
+          expenses={expenses}
+          accounts={activeAccounts}
+          homeCurrency={homeCurrency}
+          onImport={importExpenses}
+          onClose={() => setShowStatementImport(false)}
+        />
+      )}
+
+      {viewedAttachments && (
+        <AttachmentViewer
+          darkMode={darkMode}
+          attachments={viewedAttachments.attachments}
+          initialIndex={viewedAttachments.index}
+          onClose={() => setViewedAttachments(null)}
+        />
+      )}
+
+      {deletedExpense && (
+        <UndoToast
+          darkMode={darkMode}
+          message={`Deleted "${
+            deletedExpense.expense.description ||
+            deletedExpense.expense.category
+          }"`}
+          onUndo={undoDeleteExpense}
+          onDismiss={() => {
+            removeAttachments(getAttachmentIds([deletedExpense.expense]));
+            setDeletedExpense(null);
+          }}
+        />
+      )}
     </div>
   );
 }
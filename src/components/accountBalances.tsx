@@ -0,0 +1,248 @@
+import { useState } from "react";
+import { Line } from "react-chartjs-2";
+import type { Account, ExchangeRates, Expense } from "../types";
+import {
+  ACCOUNT_ICONS,
+  ACCOUNT_TYPE_LABELS,
+  getBalanceSeries,
+  getCreditUtilization,
+  getUtilizationStatus,
+} from "../utils/accounts";
+import { convert, formatMoney } from "../utils/currency";
+import type { DateRange } from "../utils/dateRange";
+import {
+  formatBucketLabel,
+  getBuckets,
+  type Granularity,
+} from "../utils/timeSeries";
+
+interface AccountBalancesProps {
+  darkMode: boolean;
+  accounts: Account[];
+  // Current balance of each account by id, in the account's currency
+  balances: Record<string, number>;
+  expenses: Expense[];
+  homeCurrency: string;
+  exchangeRates: ExchangeRates;
+  range: DateRange;
+}
+
+const granularities: Granularity[] = ["day", "week", "month"];
+
+const lineColors = [
+  "#6366f1",
+  "#10b981",
+  "#f59e0b",
+  "#ef4444",
+  "#8b5cf6",
+  "#06b6d4",
+  "#ec4899",
+  "#84cc16",
+];
+
+const statusColors = {
+  ok: "bg-green-500",
+  warning: "bg-yellow-500",
+  over: "bg-red-500",
+};
+
+const AccountBalances = ({
+  darkMode,
+  accounts,
+  balances,
+  expenses,
+  homeCurrency,
+  exchangeRates,
+  range,
+}: AccountBalancesProps) => {
+  const [granularity, setGranularity] = useState<Granularity>("day");
+
+  const mutedClassName = darkMode ? "text-gray-400" : "text-gray-500";
+  const textColor = darkMode ? "#fff" : "#000";
+
+  const netWorth = accounts.reduce(
+    (sum, account) =>
+      sum +
+      convert(
+        balances[account.id] ?? 0,
+        account.currency,
+        homeCurrency,
+        exchangeRates
+      ),
+    0
+  );
+
+  const buckets = getBuckets(range, expenses, granularity);
+  const series = getBalanceSeries(
+    accounts,
+    expenses,
+    exchangeRates,
+    buckets,
+    granularity
+  );
+
+  return (
+    <div
+      className={`${
+        darkMode ? "bg-gray-800" : "bg-white"
+      } p-6 rounded-lg shadow mb-8`}
+    >
+      <div className="flex items-baseline justify-between mb-4">
+        <h3
+          className={`text-lg font-medium ${
+            darkMode ? "text-white" : "text-gray-900"
+          }`}
+        >
+          Accounts
+        </h3>
+        <span className={`text-sm ${mutedClassName}`}>
+          Net worth:{" "}
+          <span
+            className={`font-semibold ${
+              netWorth < 0
+                ? "text-red-500"
+                : darkMode
+                ? "text-white"
+                : "text-gray-900"
+            }`}
+          >
+            {formatMoney(netWorth, homeCurrency)}
+          </span>
+        </span>
+      </div>
+
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4 mb-6">
+        {accounts.map((account) => {
+          const Icon = ACCOUNT_ICONS[account.type];
+          const balance = balances[account.id] ?? 0;
+          const utilization = getCreditUtilization(account, balance);
+          const status =
+            utilization === null ? null : getUtilizationStatus(utilization);
+
+          return (
+            <div
+              key={account.id}
+              className={`p-4 rounded-lg ${
+                darkMode ? "bg-gray-700" : "bg-gray-50"
+              }`}
+            >
+              <div className="flex items-center mb-2">
+                <Icon className={`h-5 w-5 mr-2 ${mutedClassName}`} />
+                <div className="min-w-0">
+                  <p
+                    className={`text-sm font-medium truncate ${
+                      darkMode ? "text-white" : "text-gray-900"
+                    }`}
+                  >
+                    {account.name}
+                  </p>
+                  <p className={`text-xs ${mutedClassName}`}>
+                    {ACCOUNT_TYPE_LABELS[account.type]}
+                  </p>
+                </div>
+              </div>
+              <p
+                className={`text-lg font-semibold ${
+                  balance < 0
+                    ? "text-red-500"
+                    : darkMode
+                    ? "text-white"
+                    : "text-gray-900"
+                }`}
+              >
+                {formatMoney(balance, account.currency)}
+              </p>
+              {account.currency !== homeCurrency && (
+                <p className={`text-xs ${mutedClassName}`}>
+                  {formatMoney(
+                    convert(
+                      balance,
+                      account.currency,
+                      homeCurrency,
+                      exchangeRates
+                    ),
+                    homeCurrency
+                  )}
+                </p>
+              )}
+              {utilization !== null && status && account.creditLimit && (
+                <div className="mt-2">
+                  <div
+                    className={`h-2 w-full rounded-full overflow-hidden ${
+                      darkMode ? "bg-gray-600" : "bg-gray-200"
+                    }`}
+                  >
+                    <div
+                      className={`h-full rounded-full ${statusColors[status]}`}
+                      style={{ width: `${Math.min(100, utilization * 100)}%` }}
+                    ></div>
+                  </div>
+                  <p className={`mt-1 text-xs ${mutedClassName}`}>
+                    {(utilization * 100).toFixed(0)}% of{" "}
+                    {formatMoney(account.creditLimit, account.currency)} used
+                  </p>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center justify-between mb-2">
+        <h4 className={`text-sm font-medium ${mutedClassName}`}>
+          Running Balances
+        </h4>
+        <div className="flex space-x-1">
+          {granularities.map((option) => (
+            <button
+              key={option}
+              onClick={() => setGranularity(option)}
+              className={`px-3 py-1 rounded-md text-sm font-medium capitalize ${
+                granularity === option
+                  ? "bg-indigo-600 text-white"
+                  : darkMode
+                  ? "bg-gray-700 text-gray-300"
+                  : "bg-gray-100 text-gray-700"
+              }`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="h-64">
+        <Line
+          data={{
+            labels: buckets.map((bucket) =>
+              formatBucketLabel(bucket, granularity)
+            ),
+            datasets: accounts.map((account, index) => ({
+              label: `${account.name} (${account.currency})`,
+              data: series[index],
+              borderColor: lineColors[index % lineColors.length],
+              backgroundColor: lineColors[index % lineColors.length],
+              pointRadius: 0,
+              tension: 0.2,
+            })),
+          }}
+          options={{
+            maintainAspectRatio: false,
+            scales: {
+              y: { ticks: { color: textColor } },
+              x: { ticks: { color: textColor } },
+            },
+            plugins: {
+              legend: {
+                labels: {
+                  color: textColor,
+                },
+              },
+            },
+          }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default AccountBalances;
@@ -0,0 +1,334 @@
+import React, { useState } from "react";
+import { Archive, ArchiveRestore, Pencil, Trash2, X } from "lucide-react";
+import type { Account, AccountType } from "../types";
+import { ACCOUNT_ICONS, ACCOUNT_TYPE_LABELS } from "../utils/accounts";
+import { formatMoney } from "../utils/currency";
+
+interface AccountManagerProps {
+  darkMode: boolean;
+  accounts: Account[];
+  // Current balance of each account by id, in the account's currency
+  balances: Record<string, number>;
+  // Accounts with entries or recurring templates, which can only be archived
+  usedAccountIds: string[];
+  currencies: string[];
+  homeCurrency: string;
+  onSave: (account: Account) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const emptyForm = (currency: string) => ({
+  name: "",
+  type: "checking" as AccountType,
+  currency,
+  openingBalance: "0",
+  creditLimit: "",
+});
+
+const AccountManager = ({
+  darkMode,
+  accounts,
+  balances,
+  usedAccountIds,
+  currencies,
+  homeCurrency,
+  onSave,
+  onDelete,
+  onClose,
+}: AccountManagerProps) => {
+  const [form, setForm] = useState(() => emptyForm(homeCurrency));
+  const [editing, setEditing] = useState<Account | null>(null);
+
+  const inputClassName = `mt-1 block w-full border ${
+    darkMode ? "bg-gray-700 border-gray-600 text-white" : "border-gray-300"
+  } rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm`;
+
+  const labelClassName = `block text-sm font-medium ${
+    darkMode ? "text-gray-200" : "text-gray-700"
+  }`;
+
+  const mutedClassName = darkMode ? "text-gray-400" : "text-gray-500";
+
+  const iconButtonClassName = `p-2 rounded-lg ${
+    darkMode
+      ? "text-gray-400 hover:bg-gray-700"
+      : "text-gray-500 hover:bg-gray-100"
+  }`;
+
+  // Entries need somewhere to go, so the last open account stays open
+  const activeCount = accounts.filter((account) => !account.archived).length;
+
+  const resetForm = () => {
+    setForm(emptyForm(homeCurrency));
+    setEditing(null);
+  };
+
+  const saveAccount = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = form.name.trim();
+    const openingBalance = parseFloat(form.openingBalance) || 0;
+    const creditLimit = parseFloat(form.creditLimit);
+    if (!name) return;
+
+    onSave({
+      id: editing ? editing.id : Date.now().toString(),
+      name,
+      type: form.type,
+      currency: form.currency,
+      openingBalance,
+      creditLimit:
+        form.type === "credit" && creditLimit > 0 ? creditLimit : null,
+      archived: editing ? editing.archived : false,
+    });
+    resetForm();
+  };
+
+  const editAccount = (account: Account) => {
+    setEditing(account);
+    setForm({
+      name: account.name,
+      type: account.type,
+      currency: account.currency,
+      openingBalance: account.openingBalance.toString(),
+      creditLimit: account.creditLimit ? account.creditLimit.toString() : "",
+    });
+  };
+
+  return (
+    <div
+      className={`${
+        darkMode ? "bg-gray-800" : "bg-white"
+      } p-6 rounded-lg shadow`}
+    >
+      <div className="flex justify-between items-center mb-4">
+        <h2
+          className={`text-xl font-bold ${
+            darkMode ? "text-white" : "text-gray-900"
+          }`}
+        >
+          Accounts
+        </h2>
+        <button
+          onClick={onClose}
+          className={`p-2 rounded-lg ${
+            darkMode ? "bg-gray-700" : "bg-gray-100"
+          }`}
+        >
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+
+      <form
+        onSubmit={saveAccount}
+        className="grid grid-cols-1 gap-4 sm:grid-cols-3 items-end mb-6"
+      >
+        <div>
+          <label htmlFor="account-name" className={labelClassName}>
+            Name
+          </label>
+          <input
+            type="text"
+            id="account-name"
+            required
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor="account-type" className={labelClassName}>
+            Type
+          </label>
+          <select
+            id="account-type"
+            value={form.type}
+            onChange={(e) =>
+              setForm({ ...form, type: e.target.value as AccountType })
+            }
+            className={inputClassName}
+          >
+            {(Object.keys(ACCOUNT_TYPE_LABELS) as AccountType[]).map((type) => (
+              <option key={type} value={type}>
+                {ACCOUNT_TYPE_LABELS[type]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="account-currency" className={labelClassName}>
+            Currency
+          </label>
+          <select
+            id="account-currency"
+            value={form.currency}
+            onChange={(e) => setForm({ ...form, currency: e.target.value })}
+            className={inputClassName}
+          >
+            {currencies.map((currency) => (
+              <option key={currency} value={currency}>
+                {currency}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="account-opening" className={labelClassName}>
+            Opening Balance
+          </label>
+          <input
+            type="number"
+            id="account-opening"
+            step="0.01"
+            value={form.openingBalance}
+            onChange={(e) =>
+              setForm({ ...form, openingBalance: e.target.value })
+            }
+            className={inputClassName}
+          />
+        </div>
+        {form.type === "credit" && (
+          <div>
+            <label htmlFor="account-limit" className={labelClassName}>
+              Credit Limit
+            </label>
+            <input
+              type="number"
+              id="account-limit"
+              step="0.01"
+              min="0"
+              value={form.creditLimit}
+              onChange={(e) =>
+                setForm({ ...form, creditLimit: e.target.value })
+              }
+              className={inputClassName}
+            />
+          </div>
+        )}
+        <div className="flex space-x-2">
+          <button
+            type="submit"
+            className="flex-1 inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-indigo-600 text-sm font-medium text-white hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+          >
+            {editing ? "Save" : "Add Account"}
+          </button>
+          {editing && (
+            <button
+              type="button"
+              onClick={resetForm}
+              className={`px-4 py-2 rounded-md text-sm font-medium ${
+                darkMode
+                  ? "bg-gray-700 text-white hover:bg-gray-600"
+                  : "bg-gray-100 text-gray-800 hover:bg-gray-200"
+              }`}
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      </form>
+      {form.type === "credit" && (
+        <p className={`-mt-4 mb-6 text-xs ${mutedClassName}`}>
+          Enter what you already owe on the card as a negative opening balance.
+        </p>
+      )}
+
+      <ul
+        className={`divide-y ${
+          darkMode ? "divide-gray-700" : "divide-gray-200"
+        }`}
+      >
+        {accounts.map((account) => {
+          const Icon = ACCOUNT_ICONS[account.type];
+          const used = usedAccountIds.includes(account.id);
+          const lastOpen = !account.archived && activeCount === 1;
+
+          return (
+            <li
+              key={account.id}
+              className={`py-3 flex items-center ${
+                account.archived ? "opacity-50" : ""
+              }`}
+            >
+              <Icon className={`h-5 w-5 mr-3 ${mutedClassName}`} />
+              <div className="flex-1 min-w-0">
+                <p
+                  className={`text-sm font-medium truncate ${
+                    darkMode ? "text-white" : "text-gray-900"
+                  }`}
+                >
+                  {account.name}
+                  {account.archived && (
+                    <span className="ml-2 text-xs">(archived)</span>
+                  )}
+                </p>
+                <p className={`text-sm ${mutedClassName}`}>
+                  {ACCOUNT_TYPE_LABELS[account.type]} · {account.currency}
+                  {account.creditLimit !== null &&
+                    ` · Limit ${formatMoney(
+                      account.creditLimit,
+                      account.currency
+                    )}`}
+                </p>
+              </div>
+              <span
+                className={`text-sm font-semibold ${
+                  (balances[account.id] ?? 0) < 0
+                    ? "text-red-500"
+                    : darkMode
+                    ? "text-white"
+                    : "text-gray-900"
+                }`}
+              >
+                {formatMoney(balances[account.id] ?? 0, account.currency)}
+              </span>
+              <div className="flex items-center space-x-1 ml-4">
+                <button
+                  onClick={() => editAccount(account)}
+                  className={iconButtonClassName}
+                  title="Edit account"
+                >
+                  <Pencil className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() =>
+                    onSave({ ...account, archived: !account.archived })
+                  }
+                  disabled={lastOpen}
+                  className={`${iconButtonClassName} disabled:opacity-50`}
+                  title={
+                    account.archived ? "Restore account" : "Archive account"
+                  }
+                >
+                  {account.archived ? (
+                    <ArchiveRestore className="h-4 w-4" />
+                  ) : (
+                    <Archive className="h-4 w-4" />
+                  )}
+                </button>
+                <button
+                  onClick={() => onDelete(account.id)}
+                  disabled={used || lastOpen}
+                  className={`p-2 rounded-lg disabled:opacity-50 ${
+                    darkMode
+                      ? "text-red-400 hover:bg-gray-700"
+                      : "text-red-500 hover:bg-gray-100"
+                  }`}
+                  title={
+                    used
+                      ? "Has transactions; archive it instead"
+                      : "Delete account"
+                  }
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default AccountManager;
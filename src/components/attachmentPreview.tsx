@@ -0,0 +1,88 @@
+import { useEffect, useState } from "react";
+import { FileText } from "lucide-react";
+import type { Attachment } from "../types";
+import { getAttachmentBlob, isImageAttachment } from "../utils/attachments";
+
+interface AttachmentPreviewProps {
+  attachment: Attachment;
+  // Full size shows PDFs in a frame; thumbnails show an icon for them
+  full?: boolean;
+  className?: string;
+}
+
+const AttachmentPreview = ({
+  attachment,
+  full = false,
+  className = "",
+}: AttachmentPreviewProps) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [missing, setMissing] = useState(false);
+
+  const needsFile = full || isImageAttachment(attachment);
+
+  useEffect(() => {
+    if (!needsFile) return;
+    let objectUrl: string | null = null;
+    let cancelled = false;
+
+    getAttachmentBlob(attachment.id)
+      .then((blob) => {
+        if (cancelled) return;
+        if (!blob) {
+          setMissing(true);
+          return;
+        }
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      })
+      .catch(() => {
+        if (!cancelled) setMissing(true);
+      });
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [attachment.id, needsFile]);
+
+  if (missing) {
+    return (
+      <div
+        className={`flex items-center justify-center text-xs text-red-500 ${className}`}
+      >
+        File missing
+      </div>
+    );
+  }
+
+  if (isImageAttachment(attachment)) {
+    return url ? (
+      <img
+        src={url}
+        alt={attachment.name}
+        className={`${full ? "object-contain" : "object-cover"} ${className}`}
+      />
+    ) : (
+      <div className={className}></div>
+    );
+  }
+
+  if (full && url) {
+    return (
+      <iframe
+        src={url}
+        title={attachment.name}
+        sandbox=""
+        className={className}
+      ></iframe>
+    );
+  }
+
+  return (
+    <div className={`flex items-center justify-center ${className}`}>
+      <FileText className={full ? "h-16 w-16" : "h-4 w-4"} />
+    </div>
+  );
+};
+
+export default AttachmentPreview;
@@ -0,0 +1,117 @@
+import { useState } from "react";
+import { ChevronLeft, ChevronRight, Download, X } from "lucide-react";
+import type { Attachment } from "../types";
+import { getAttachmentBlob } from "../utils/attachments";
+import AttachmentPreview from "./attachmentPreview";
+
+interface AttachmentViewerProps {
+  darkMode: boolean;
+  attachments: Attachment[];
+  // Attachment shown first
+  initialIndex: number;
+  onClose: () => void;
+}
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024
+    ? `${Math.max(1, Math.round(bytes / 1024))} KB`
+    : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const AttachmentViewer = ({
+  darkMode,
+  attachments,
+  initialIndex,
+  onClose,
+}: AttachmentViewerProps) => {
+  const [index, setIndex] = useState(initialIndex);
+  const attachment = attachments[index];
+
+  const iconButtonClassName = `p-2 rounded-lg disabled:opacity-50 ${
+    darkMode ? "bg-gray-700" : "bg-gray-100"
+  }`;
+
+  const download = async () => {
+    const blob = await getAttachmentBlob(attachment.id);
+    if (!blob) return;
+
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = attachment.name;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div
+        className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity"
+        onClick={onClose}
+      ></div>
+      <div
+        className={`relative w-full max-w-3xl ${
+          darkMode ? "bg-gray-800 text-white" : "bg-white text-gray-900"
+        } p-6 rounded-lg shadow-xl`}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <div className="min-w-0">
+            <h2 className="text-lg font-bold truncate">{attachment.name}</h2>
+            <p
+              className={`text-sm ${
+                darkMode ? "text-gray-400" : "text-gray-500"
+              }`}
+            >
+              {formatSize(attachment.size)}
+              {attachments.length > 1 &&
+                ` · ${index + 1} of ${attachments.length}`}
+            </p>
+          </div>
+          <div className="flex items-center space-x-2 ml-4">
+            <button
+              onClick={download}
+              className={iconButtonClassName}
+              title="Download"
+            >
+              <Download className="h-5 w-5" />
+            </button>
+            <button onClick={onClose} className={iconButtonClassName}>
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+        </div>
+
+        <AttachmentPreview
+          key={attachment.id}
+          attachment={attachment}
+          full
+          className={`w-full h-[70vh] rounded-md ${
+            darkMode ? "bg-gray-900" : "bg-gray-100"
+          }`}
+        />
+
+        {attachments.length > 1 && (
+          <div className="flex justify-between mt-4">
+            <button
+              onClick={() => setIndex(index - 1)}
+              disabled={index === 0}
+              className={iconButtonClassName}
+              title="Previous"
+            >
+              <ChevronLeft className="h-5 w-5" />
+            </button>
+            <button
+              onClick={() => setIndex(index + 1)}
+              disabled={index === attachments.length - 1}
+              className={iconButtonClassName}
+              title="Next"
+            >
+              <ChevronRight className="h-5 w-5" />
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AttachmentViewer;
@@ -0,0 +1,264 @@
+import React, { useState } from "react";
+import { AlertCircle, Download, Upload, X } from "lucide-react";
+import {
+  createBackup,
+  mergeData,
+  parseBackup,
+  summarizeRestore,
+  type RestoreMode,
+} from "../utils/backup";
+import {
+  exportAttachments,
+  importAttachments,
+  type AttachmentFiles,
+} from "../utils/attachments";
+import { toDateInputValue } from "../utils/dateRange";
+import { downloadFile } from "../utils/download";
+import type { AppData, QuarantineEntry } from "../utils/storage";
+
+interface BackupRestoreProps {
+  darkMode: boolean;
+  data: AppData;
+  onRestore: (data: AppData) => void;
+  onClose: () => void;
+}
+
+const modeDescriptions: Record<RestoreMode, string> = {
+  merge:
+    "Add entries from the backup and update matching ones. Nothing on this device is removed.",
+  replace:
+    "Replace everything on this device, including settings, with the backup.",
+};
+
+const BackupRestore = ({
+  darkMode,
+  data,
+  onRestore,
+  onClose,
+}: BackupRestoreProps) => {
+  const [fileName, setFileName] = useState("");
+  const [backup, setBackup] = useState<{
+    data: AppData;
+    rejected: QuarantineEntry[];
+    attachments: AttachmentFiles;
+    exportedAt: string;
+  } | null>(null);
+  const [mode, setMode] = useState<RestoreMode>("merge");
+  const [error, setError] = useState("");
+  const [exportError, setExportError] = useState("");
+
+  const mutedClassName = darkMode ? "text-gray-400" : "text-gray-500";
+
+  const exportBackup = async () => {
+    setExportError("");
+    try {
+      downloadFile(
+        createBackup(data, await exportAttachments(data.expenses)),
+        `finance-tracker-backup-${toDateInputValue(new Date())}.json`,
+        "application/json"
+      );
+    } catch {
+      setExportError("Could not create the backup");
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setFileName(file.name);
+    try {
+      setBackup(parseBackup(await file.text()));
+      setError("");
+    } catch (err) {
+      setBackup(null);
+      setError(err instanceof Error ? err.message : "Could not read backup");
+    }
+  };
+
+  const restored = backup
+    ? mode === "merge"
+      ? mergeData(data, backup.data)
+      : backup.data
+    : null;
+  const summary = restored ? summarizeRestore(data, restored) : null;
+
+  const rows = summary
+    ? [
+        { label: "Transactions", ...summary.expenses },
+        { label: "Budgets", ...summary.budgets },
+        { label: "Recurring", ...summary.recurring },
+        { label: "Categories", ...summary.categories },
+        { label: "Accounts", ...summary.accounts },
+        { label: "Savings goals", ...summary.goals },
+        { label: "Envelope moves", ...summary.envelopeMoves },
+      ]
+    : [];
+
+  const applyRestore = async () => {
+    if (!backup || !restored) return;
+    try {
+      await importAttachments(backup.attachments);
+    } catch {
+      setError("Could not restore the attachments");
+      return;
+    }
+    onRestore(restored);
+    setBackup(null);
+    setFileName("");
+  };
+
+  return (
+    <div
+      className={`${
+        darkMode ? "bg-gray-800" : "bg-white"
+      } p-6 rounded-lg shadow`}
+    >
+      <div className="flex justify-between items-center mb-4">
+        <h2
+          className={`text-xl font-bold ${
+            darkMode ? "text-white" : "text-gray-900"
+          }`}
+        >
+          Backup & Restore
+        </h2>
+        <button
+          onClick={onClose}
+          className={`p-2 rounded-lg ${
+            darkMode ? "bg-gray-700" : "bg-gray-100"
+          }`}
+        >
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+        <div>
+          <p className={`text-sm mb-3 ${mutedClassName}`}>
+            Download everything in one file: transactions and their attachments,
+            accounts, budgets and envelopes, savings goals, recurring entries,
+            categories, currencies, game progress and preferences.
+          </p>
+          <button
+            onClick={exportBackup}
+            className="inline-flex items-center px-4 py-2 rounded-md text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Download Backup
+          </button>
+          {exportError && (
+            <p className="mt-2 text-sm text-red-500">{exportError}</p>
+          )}
+        </div>
+
+        <div className="space-y-4">
+          <label
+            className={`flex items-center justify-center px-4 py-4 border-2 border-dashed rounded-lg cursor-pointer text-sm ${
+              darkMode
+                ? "border-gray-600 text-gray-300"
+                : "border-gray-300 text-gray-600"
+            }`}
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            {fileName || "Choose a backup file to restore"}
+            <input
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={handleFile}
+            />
+          </label>
+          {error && <p className="text-sm text-red-500">{error}</p>}
+
+          {backup && summary && (
+            <>
+              {backup.exportedAt && (
+                <p className={`text-sm ${mutedClassName}`}>
+                  Backup made {new Date(backup.exportedAt).toLocaleString()}
+                </p>
+              )}
+
+              <div className="flex space-x-2">
+                {(["merge", "replace"] as RestoreMode[]).map((option) => (
+                  <button
+                    key={option}
+                    onClick={() => setMode(option)}
+                    className={`flex-1 px-4 py-2 rounded-md text-sm font-medium capitalize ${
+                      mode === option
+                        ? "bg-indigo-600 text-white"
+                        : darkMode
+                        ? "bg-gray-700 text-gray-300"
+                        : "bg-gray-100 text-gray-700"
+                    }`}
+                  >
+                    {option}
+                  </button>
+                ))}
+              </div>
+              <p className={`text-sm ${mutedClassName}`}>
+                {modeDescriptions[mode]}
+              </p>
+
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className={mutedClassName}>
+                    <th className="text-left font-medium py-1"></th>
+                    <th className="text-right font-medium py-1">Added</th>
+                    <th className="text-right font-medium py-1">Updated</th>
+                    <th className="text-right font-medium py-1">Removed</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row) => (
+                    <tr
+                      key={row.label}
+                      className={darkMode ? "text-white" : "text-gray-900"}
+                    >
+                      <td className="py-1">{row.label}</td>
+                      <td className="py-1 text-right">{row.added}</td>
+                      <td className="py-1 text-right">{row.updated}</td>
+                      <td
+                        className={`py-1 text-right ${
+                          row.removed > 0 ? "text-red-500" : ""
+                        }`}
+                      >
+                        {row.removed}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              {summary.settings.length > 0 && (
+                <p className={`text-sm ${mutedClassName}`}>
+                  Also changes: {summary.settings.join(", ")}
+                </p>
+              )}
+              {backup.rejected.length > 0 && (
+                <p className="flex items-start text-sm text-yellow-500">
+                  <AlertCircle className="h-4 w-4 mr-1 mt-0.5 flex-shrink-0" />
+                  {backup.rejected.length} invalid record
+                  {backup.rejected.length === 1 ? "" : "s"} in the backup will
+                  be skipped.
+                </p>
+              )}
+
+              <button
+                onClick={applyRestore}
+                className={`w-full px-4 py-2 rounded-md text-sm font-medium text-white ${
+                  mode === "replace"
+                    ? "bg-red-600 hover:bg-red-700"
+                    : "bg-indigo-600 hover:bg-indigo-700"
+                }`}
+              >
+                {mode === "replace" ? "Replace All Data" : "Merge Backup"}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BackupRestore;
@@ -0,0 +1,298 @@
+import React, { useState } from "react";
+import { Pencil, Trash2, X } from "lucide-react";
+import type { Budget, BudgetPeriod, EnvelopeRollover, Expense } from "../types";
+import { getBudgetSpent } from "../utils/budget";
+import { getEnvelopeRollover } from "../utils/envelopes";
+import BudgetProgress from "./budgetProgress";
+
+interface BudgetManagerProps {
+  darkMode: boolean;
+  categories: string[];
+  budgets: Budget[];
+  // Expenses with amounts already converted to the home currency
+  expenses: Expense[];
+  currency: string;
+  // Budgets work as envelopes funded from income
+  envelopeMode: boolean;
+  onEnvelopeModeChange: (enabled: boolean) => void;
+  onChange: (budgets: Budget[]) => void;
+  onClose: () => void;
+}
+
+const emptyForm = {
+  category: "",
+  limit: "",
+  period: "monthly" as BudgetPeriod,
+  rollover: "rollover" as EnvelopeRollover,
+};
+
+const BudgetManager = ({
+  darkMode,
+  categories,
+  budgets,
+  expenses,
+  currency,
+  envelopeMode,
+  onEnvelopeModeChange,
+  onChange,
+  onClose,
+}: BudgetManagerProps) => {
+  const [form, setForm] = useState(emptyForm);
+  const [editingCategory, setEditingCategory] = useState<string | null>(null);
+
+  const inputClassName = `mt-1 block w-full border ${
+    darkMode ? "bg-gray-700 border-gray-600 text-white" : "border-gray-300"
+  } rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm`;
+
+  const labelClassName = `block text-sm font-medium ${
+    darkMode ? "text-gray-200" : "text-gray-700"
+  }`;
+
+  const resetForm = () => {
+    setForm(emptyForm);
+    setEditingCategory(null);
+  };
+
+  const saveBudget = (e: React.FormEvent) => {
+    e.preventDefault();
+    const limit = parseFloat(form.limit);
+    if (!form.category || !(limit > 0)) return;
+
+    const budget: Budget = {
+      category: form.category,
+      limit,
+      period: form.period,
+      rollover: form.rollover,
+    };
+
+    // One budget per category: saving replaces the edited budget and any
+    // existing budget for the chosen category
+    onChange([
+      ...budgets.filter(
+        (b) => b.category !== editingCategory && b.category !== budget.category
+      ),
+      budget,
+    ]);
+    resetForm();
+  };
+
+  const editBudget = (budget: Budget) => {
+    setEditingCategory(budget.category);
+    setForm({
+      category: budget.category,
+      limit: budget.limit.toString(),
+      period: budget.period,
+      rollover: getEnvelopeRollover(budget),
+    });
+  };
+
+  const deleteBudget = (category: string) => {
+    onChange(budgets.filter((b) => b.category !== category));
+    if (editingCategory === category) resetForm();
+  };
+
+  return (
+    <div
+      className={`${
+        darkMode ? "bg-gray-800" : "bg-white"
+      } p-6 rounded-lg shadow`}
+    >
+      <div className="flex justify-between items-center mb-4">
+        <h2
+          className={`text-xl font-bold ${
+            darkMode ? "text-white" : "text-gray-900"
+          }`}
+        >
+          Manage Budgets
+        </h2>
+        <button
+          onClick={onClose}
+          className={`p-2 rounded-lg ${
+            darkMode ? "bg-gray-700" : "bg-gray-100"
+          }`}
+        >
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+
+      <label className="flex items-start mb-6 text-sm">
+        <input
+          type="checkbox"
+          checked={envelopeMode}
+          onChange={(e) => onEnvelopeModeChange(e.target.checked)}
+          className="mt-0.5 mr-2"
+        />
+        <span>
+          <span
+            className={`font-medium ${
+              darkMode ? "text-gray-200" : "text-gray-700"
+            }`}
+          >
+            Envelope mode
+          </span>
+          <span
+            className={`block ${darkMode ? "text-gray-400" : "text-gray-500"}`}
+          >
+            Each month's income fills an envelope per budget. Unspent money
+            rolls over or is swept to savings, and overspending is covered by
+            moving money from another envelope.
+          </span>
+        </span>
+      </label>
+
+      <form
+        onSubmit={saveBudget}
+        className={`grid grid-cols-1 gap-4 items-end mb-6 ${
+          envelopeMode ? "sm:grid-cols-5" : "sm:grid-cols-4"
+        }`}
+      >
+        <div>
+          <label htmlFor="budget-category" className={labelClassName}>
+            Category
+          </label>
+          <select
+            id="budget-category"
+            required
+            value={form.category}
+            onChange={(e) => setForm({ ...form, category: e.target.value })}
+            className={inputClassName}
+          >
+            <option value="">Select a category</option>
+            {categories.map((category) => (
+              <option key={category} value={category}>
+                {category}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="budget-limit" className={labelClassName}>
+            {envelopeMode ? "Allocation" : "Limit"} ({currency})
+          </label>
+          <input
+            type="number"
+            id="budget-limit"
+            step="0.01"
+            min="0.01"
+            required
+            value={form.limit}
+            onChange={(e) => setForm({ ...form, limit: e.target.value })}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor="budget-period" className={labelClassName}>
+            Period
+          </label>
+          <select
+            id="budget-period"
+            value={form.period}
+            onChange={(e) =>
+              setForm({ ...form, period: e.target.value as BudgetPeriod })
+            }
+            className={inputClassName}
+          >
+            <option value="weekly">Weekly</option>
+            <option value="monthly">Monthly</option>
+          </select>
+        </div>
+        {envelopeMode && (
+          <div>
+            <label htmlFor="budget-rollover" className={labelClassName}>
+              At Month End
+            </label>
+            <select
+              id="budget-rollover"
+              value={form.rollover}
+              onChange={(e) =>
+                setForm({
+                  ...form,
+                  rollover: e.target.value as EnvelopeRollover,
+                })
+              }
+              className={inputClassName}
+            >
+              <option value="rollover">Roll over</option>
+              <option value="sweep">Sweep to savings</option>
+            </select>
+          </div>
+        )}
+        <div className="flex space-x-2">
+          <button
+            type="submit"
+            className="flex-1 inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-indigo-600 text-sm font-medium text-white hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+          >
+            {editingCategory ? "Save Budget" : "Add Budget"}
+          </button>
+          {editingCategory && (
+            <button
+              type="button"
+              onClick={resetForm}
+              className={`px-4 py-2 rounded-md text-sm font-medium ${
+                darkMode
+                  ? "bg-gray-700 text-white hover:bg-gray-600"
+                  : "bg-gray-100 text-gray-800 hover:bg-gray-200"
+              }`}
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      </form>
+
+      <ul
+        className={`divide-y ${
+          darkMode ? "divide-gray-700" : "divide-gray-200"
+        }`}
+      >
+        {budgets.map((budget) => (
+          <li key={budget.category} className="py-4 flex items-center">
+            <div className="flex-1 min-w-0">
+              <BudgetProgress
+                darkMode={darkMode}
+                budget={budget}
+                spent={getBudgetSpent(budget, expenses)}
+                currency={currency}
+              />
+            </div>
+            <div className="flex items-center space-x-1 ml-4">
+              <button
+                onClick={() => editBudget(budget)}
+                className={`p-2 rounded-lg ${
+                  darkMode
+                    ? "text-gray-400 hover:bg-gray-700"
+                    : "text-gray-500 hover:bg-gray-100"
+                }`}
+                title="Edit budget"
+              >
+                <Pencil className="h-4 w-4" />
+              </button>
+              <button
+                onClick={() => deleteBudget(budget.category)}
+                className={`p-2 rounded-lg ${
+                  darkMode
+                    ? "text-red-400 hover:bg-gray-700"
+                    : "text-red-500 hover:bg-gray-100"
+                }`}
+                title="Delete budget"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          </li>
+        ))}
+        {budgets.length === 0 && (
+          <li
+            className={`py-4 text-center ${
+              darkMode ? "text-gray-400" : "text-gray-500"
+            }`}
+          >
+            No budgets set yet
+          </li>
+        )}
+      </ul>
+    </div>
+  );
+};
+
+export default BudgetManager;
@@ -0,0 +1,77 @@
+import { AlertTriangle } from "lucide-react";
+import type { Budget } from "../types";
+import { getBudgetStatus } from "../utils/budget";
+import { formatMoney } from "../utils/currency";
+
+interface BudgetProgressProps {
+  darkMode: boolean;
+  budget: Budget;
+  spent: number;
+  // Home currency; limits and spending are both in it
+  currency: string;
+}
+
+const statusColors = {
+  ok: "bg-green-500",
+  warning: "bg-yellow-500",
+  over: "bg-red-500",
+};
+
+const BudgetProgress = ({
+  darkMode,
+  budget,
+  spent,
+  currency,
+}: BudgetProgressProps) => {
+  const status = getBudgetStatus(spent, budget.limit);
+  const percent =
+    budget.limit > 0 ? Math.min(100, (spent / budget.limit) * 100) : 100;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <span
+          className={`text-sm font-medium flex items-center ${
+            darkMode ? "text-white" : "text-gray-900"
+          }`}
+        >
+          {budget.category}
+          {status !== "ok" && (
+            <AlertTriangle
+              className={`h-4 w-4 ml-2 ${
+                status === "over" ? "text-red-500" : "text-yellow-500"
+              }`}
+            />
+          )}
+        </span>
+        <span
+          className={`text-sm ${darkMode ? "text-gray-400" : "text-gray-500"}`}
+        >
+          {formatMoney(spent, currency)} / {formatMoney(budget.limit, currency)}{" "}
+          {budget.period === "weekly" ? "this week" : "this month"}
+        </span>
+      </div>
+      <div
+        className={`h-2 w-full rounded-full overflow-hidden ${
+          darkMode ? "bg-gray-700" : "bg-gray-200"
+        }`}
+      >
+        <div
+          className={`h-full rounded-full ${statusColors[status]}`}
+          style={{ width: `${percent}%` }}
+        ></div>
+      </div>
+      {status === "over" && (
+        <p
+          className={`mt-1 text-xs ${
+            darkMode ? "text-red-400" : "text-red-600"
+          }`}
+        >
+          Over budget by {formatMoney(spent - budget.limit, currency)}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default BudgetProgress;
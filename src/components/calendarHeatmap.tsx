@@ -0,0 +1,376 @@
+import { useState } from "react";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import type { Expense } from "../types";
+import {
+  HEATMAP_LEVELS,
+  getCalendarWeeks,
+  getDayTotals,
+  getHeatmapScale,
+  isWeekend,
+  toDayKey,
+} from "../utils/calendar";
+import { formatMoney } from "../utils/currency";
+import { fromDateInputValue } from "../utils/dateRange";
+
+interface CalendarHeatmapProps {
+  darkMode: boolean;
+  // Category lines in the home currency, for the daily totals
+  lines: Expense[];
+  // Whole entries in the home currency, listed for the selected day
+  expenses: Expense[];
+  currency: string;
+}
+
+type CalendarView = "year" | "month";
+
+const views: CalendarView[] = ["year", "month"];
+
+const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// One shade per level, from nothing spent to the busiest days
+const levelColors = {
+  light: [
+    "bg-gray-100",
+    "bg-indigo-100",
+    "bg-indigo-300",
+    "bg-indigo-500",
+    "bg-indigo-700",
+  ],
+  dark: [
+    "bg-gray-700",
+    "bg-indigo-900",
+    "bg-indigo-700",
+    "bg-indigo-500",
+    "bg-indigo-300",
+  ],
+};
+
+const CalendarHeatmap = ({
+  darkMode,
+  lines,
+  expenses,
+  currency,
+}: CalendarHeatmapProps) => {
+  const today = new Date();
+  const [view, setView] = useState<CalendarView>("year");
+  const [cursor, setCursor] = useState({
+    year: today.getFullYear(),
+    month: today.getMonth(),
+  });
+  const [selectedDay, setSelectedDay] = useState<string | null>(null);
+
+  const start =
+    view === "year"
+      ? new Date(cursor.year, 0, 1)
+      : new Date(cursor.year, cursor.month, 1);
+  const end =
+    view === "year"
+      ? new Date(cursor.year + 1, 0, 1)
+      : new Date(cursor.year, cursor.month + 1, 1);
+  const weeks = getCalendarWeeks(start, end);
+
+  const { spending, paydays } = getDayTotals(lines);
+  const getSpent = (day: Date) => spending.get(toDayKey(day)) || 0;
+  // Shades are relative to the days on screen
+  const getLevel = getHeatmapScale(
+    weeks.flat().map((day) => (day ? getSpent(day) : 0))
+  );
+  const colors = darkMode ? levelColors.dark : levelColors.light;
+  const mutedClassName = darkMode ? "text-gray-400" : "text-gray-500";
+
+  const move = (step: number) => {
+    setCursor(
+      view === "year"
+        ? { ...cursor, year: cursor.year + step }
+        : {
+            year: new Date(cursor.year, cursor.month + step, 1).getFullYear(),
+            month: new Date(cursor.year, cursor.month + step, 1).getMonth(),
+          }
+    );
+    setSelectedDay(null);
+  };
+
+  const title =
+    view === "year"
+      ? cursor.year.toString()
+      : start.toLocaleDateString(undefined, {
+          month: "long",
+          year: "numeric",
+        });
+
+  const dayClassName = (day: Date) => {
+    const key = toDayKey(day);
+    const marker =
+      key === selectedDay
+        ? "ring-2 ring-yellow-400"
+        : isWeekend(day)
+        ? `ring-1 ring-inset ${darkMode ? "ring-gray-500" : "ring-gray-300"}`
+        : "";
+    return `relative rounded-sm ${colors[getLevel(getSpent(day))]} ${marker}`;
+  };
+
+  const dayTitle = (day: Date) =>
+    `${day.toLocaleDateString()}: ${formatMoney(getSpent(day), currency)}${
+      paydays.has(toDayKey(day)) ? " · payday" : ""
+    }`;
+
+  const paydayDot = (day: Date, size: string) =>
+    paydays.has(toDayKey(day)) && (
+      <span
+        className={`absolute ${size} rounded-full bg-green-500 top-0.5 right-0.5`}
+      ></span>
+    );
+
+  const selectedExpenses = selectedDay
+    ? expenses
+        .filter(
+          (expense) =>
+            expense.kind === "expense" &&
+            toDayKey(new Date(expense.date)) === selectedDay
+        )
+        .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+    : [];
+
+  return (
+    <div
+      className={`${
+        darkMode ? "bg-gray-800" : "bg-white"
+      } p-6 rounded-lg shadow mb-8`}
+    >
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <h3
+          className={`text-lg font-medium ${
+            darkMode ? "text-white" : "text-gray-900"
+          }`}
+        >
+          Spending Calendar
+        </h3>
+        <div className="flex items-center space-x-1">
+          {views.map((option) => (
+            <button
+              key={option}
+              onClick={() => {
+                setView(option);
+                setSelectedDay(null);
+              }}
+              className={`px-3 py-1 rounded-md text-sm font-medium capitalize ${
+                view === option
+                  ? "bg-indigo-600 text-white"
+                  : darkMode
+                  ? "bg-gray-700 text-gray-300"
+                  : "bg-gray-100 text-gray-700"
+              }`}
+            >
+              {option}
+            </button>
+          ))}
+          <button
+            onClick={() => move(-1)}
+            className={`p-1 rounded-lg ${
+              darkMode ? "hover:bg-gray-700" : "hover:bg-gray-100"
+            }`}
+            title={view === "year" ? "Previous year" : "Previous month"}
+          >
+            <ChevronLeft className="h-5 w-5" />
+          </button>
+          <span
+            className={`text-sm font-medium w-32 text-center ${
+              darkMode ? "text-white" : "text-gray-900"
+            }`}
+          >
+            {title}
+          </span>
+          <button
+            onClick={() => move(1)}
+            className={`p-1 rounded-lg ${
+              darkMode ? "hover:bg-gray-700" : "hover:bg-gray-100"
+            }`}
+            title={view === "year" ? "Next year" : "Next month"}
+          >
+            <ChevronRight className="h-5 w-5" />
+          </button>
+        </div>
+      </div>
+
+      {view === "year" ? (
+        // Weeks run left to right, weekdays top to bottom
+        <div className="overflow-x-auto">
+          <div className="inline-flex">
+            <div className={`flex flex-col mr-2 text-xs ${mutedClassName}`}>
+              <span className="h-4"></span>
+              {WEEKDAY_LABELS.map((label, index) => (
+                <span
+                  key={label}
+                  className={`h-3 mb-1 leading-3 ${
+                    index === 0 || index === 6 ? "font-semibold" : ""
+                  }`}
+                >
+                  {index % 2 === 1 || index === 0 || index === 6 ? label : ""}
+                </span>
+              ))}
+            </div>
+            {weeks.map((week, weekIndex) => {
+              const firstOfMonth = week.find((day) => day?.getDate() === 1);
+              return (
+                <div key={weekIndex} className="flex flex-col mr-1">
+                  <span
+                    className={`h-4 w-3 text-xs whitespace-nowrap ${mutedClassName}`}
+                  >
+                    {firstOfMonth?.toLocaleDateString(undefined, {
+                      month: "short",
+                    })}
+                  </span>
+                  {week.map((day, dayIndex) =>
+                    day ? (
+                      <button
+                        key={dayIndex}
+                        onClick={() => setSelectedDay(toDayKey(day))}
+                        className={`h-3 w-3 mb-1 ${dayClassName(day)}`}
+                        title={dayTitle(day)}
+                        aria-label={dayTitle(day)}
+                      >
+                        {paydayDot(day, "h-1 w-1")}
+                      </button>
+                    ) : (
+                      <span key={dayIndex} className="h-3 w-3 mb-1"></span>
+                    )
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ) : (
+        <div className="grid grid-cols-7 gap-1 max-w-md">
+          {WEEKDAY_LABELS.map((label, index) => (
+            <span
+              key={label}
+              className={`text-xs text-center ${mutedClassName} ${
+                index === 0 || index === 6 ? "font-semibold" : ""
+              }`}
+            >
+              {label}
+            </span>
+          ))}
+          {weeks.flat().map((day, index) =>
+            day ? (
+              <button
+                key={index}
+                onClick={() => setSelectedDay(toDayKey(day))}
+                className={`h-10 text-xs ${dayClassName(day)} ${
+                  getLevel(getSpent(day)) > HEATMAP_LEVELS / 2
+                    ? "text-white"
+                    : darkMode
+                    ? "text-gray-200"
+                    : "text-gray-700"
+                }`}
+                title={dayTitle(day)}
+                aria-label={dayTitle(day)}
+              >
+                {day.getDate()}
+                {paydayDot(day, "h-1.5 w-1.5")}
+              </button>
+            ) : (
+              <span key={index}></span>
+            )
+          )}
+        </div>
+      )}
+
+      <div
+        className={`mt-3 flex flex-wrap items-center gap-x-4 gap-y-1 text-xs ${mutedClassName}`}
+      >
+        <span className="flex items-center">
+          Less
+          {colors.map((color) => (
+            <span
+              key={color}
+              className={`h-3 w-3 ml-1 rounded-sm ${color}`}
+            ></span>
+          ))}
+          <span className="ml-1">More</span>
+        </span>
+        <span className="flex items-center">
+          <span
+            className={`h-3 w-3 mr-1 rounded-sm ring-1 ring-inset ${
+              darkMode ? "ring-gray-500" : "ring-gray-300"
+            }`}
+          ></span>
+          Weekend
+        </span>
+        <span className="flex items-center">
+          <span className="h-1.5 w-1.5 mr-1 rounded-full bg-green-500"></span>
+          Payday
+        </span>
+      </div>
+
+      {selectedDay && (
+        <div className="mt-4">
+          <div className="flex items-center justify-between mb-2">
+            <p
+              className={`text-sm font-medium ${
+                darkMode ? "text-white" : "text-gray-900"
+              }`}
+            >
+              {fromDateInputValue(selectedDay).toLocaleDateString(undefined, {
+                weekday: "long",
+                month: "long",
+                day: "numeric",
+                year: "numeric",
+              })}
+              {paydays.has(selectedDay) && (
+                <span className="ml-2 text-xs text-green-500">Payday</span>
+              )}
+            </p>
+            <button
+              onClick={() => setSelectedDay(null)}
+              className="text-sm text-indigo-500 hover:text-indigo-600"
+            >
+              Close
+            </button>
+          </div>
+          {selectedExpenses.length === 0 ? (
+            <p className={`text-sm ${mutedClassName}`}>
+              Nothing spent this day.
+            </p>
+          ) : (
+            <ul
+              className={`divide-y text-sm ${
+                darkMode ? "divide-gray-700" : "divide-gray-200"
+              }`}
+            >
+              {selectedExpenses.map((expense) => (
+                <li
+                  key={expense.id}
+                  className="py-2 flex items-center justify-between"
+                >
+                  <span className="min-w-0">
+                    <span
+                      className={`block truncate ${
+                        darkMode ? "text-white" : "text-gray-900"
+                      }`}
+                    >
+                      {expense.description || expense.category}
+                    </span>
+                    <span className={`block text-xs ${mutedClassName}`}>
+                      {expense.category}
+                    </span>
+                  </span>
+                  <span
+                    className={`ml-4 ${
+                      darkMode ? "text-white" : "text-gray-900"
+                    }`}
+                  >
+                    {formatMoney(expense.amount, currency)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CalendarHeatmap;
@@ -0,0 +1,116 @@
+import { ArrowDownRight, ArrowUpRight, PiggyBank, Scale } from "lucide-react";
+import { SAVINGS_RATE_TARGET } from "../utils/cashFlow";
+import { formatMoney } from "../utils/currency";
+
+interface CashFlowSummaryProps {
+  darkMode: boolean;
+  periodLabel: string;
+  currency: string;
+  income: number;
+  spending: number;
+  net: number;
+  savingsRate: number | null;
+}
+
+const CashFlowSummary = ({
+  darkMode,
+  periodLabel,
+  currency,
+  income,
+  spending,
+  net,
+  savingsRate,
+}: CashFlowSummaryProps) => {
+  const stats = [
+    {
+      label: "Income",
+      value: formatMoney(income, currency),
+      icon: ArrowUpRight,
+      color: "text-green-500",
+    },
+    {
+      label: "Spending",
+      value: formatMoney(spending, currency),
+      icon: ArrowDownRight,
+      color: "text-red-500",
+    },
+    {
+      label: "Net Cash Flow",
+      value: formatMoney(net, currency),
+      icon: Scale,
+      color: net < 0 ? "text-red-500" : "text-green-500",
+    },
+    {
+      label: "Savings Rate",
+      value: savingsRate === null ? "—" : `${(savingsRate * 100).toFixed(1)}%`,
+      icon: PiggyBank,
+      color:
+        savingsRate !== null && savingsRate >= SAVINGS_RATE_TARGET
+          ? "text-green-500"
+          : "text-yellow-500",
+    },
+  ];
+
+  // Share of the income vs. spending bar taken up by income
+  const incomeShare =
+    income + spending > 0 ? (income / (income + spending)) * 100 : 50;
+
+  return (
+    <div
+      className={`${
+        darkMode ? "bg-gray-800" : "bg-white"
+      } p-6 rounded-lg shadow mb-8`}
+    >
+      <h3
+        className={`text-lg font-medium ${
+          darkMode ? "text-white" : "text-gray-900"
+        } mb-4`}
+      >
+        Cash Flow ({periodLabel})
+      </h3>
+      <dl className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+        {stats.map(({ label, value, icon: Icon, color }) => (
+          <div key={label}>
+            <dt
+              className={`flex items-center text-sm font-medium ${
+                darkMode ? "text-gray-400" : "text-gray-500"
+              }`}
+            >
+              <Icon className={`h-4 w-4 mr-1 ${color}`} />
+              {label}
+            </dt>
+            <dd
+              className={`text-lg font-semibold ${
+                darkMode ? "text-white" : "text-gray-900"
+              }`}
+            >
+              {value}
+            </dd>
+          </div>
+        ))}
+      </dl>
+      <div className="mt-4 h-2 w-full rounded-full overflow-hidden flex">
+        <div
+          className="h-full bg-green-500"
+          style={{ width: `${incomeShare}%` }}
+        ></div>
+        <div className="h-full flex-1 bg-red-500"></div>
+      </div>
+      <p
+        className={`mt-2 text-xs ${
+          darkMode ? "text-gray-400" : "text-gray-500"
+        }`}
+      >
+        Tip: save at least {SAVINGS_RATE_TARGET * 100}% of your income.
+        {savingsRate !== null &&
+          (savingsRate >= SAVINGS_RATE_TARGET
+            ? " You're on track this period."
+            : ` You're ${((SAVINGS_RATE_TARGET - savingsRate) * 100).toFixed(
+                1
+              )} points short this period.`)}
+      </p>
+    </div>
+  );
+};
+
+export default CashFlowSummary;
@@ -0,0 +1,22 @@
+import type { Category } from "../types";
+import { getCategoryIcon } from "../utils/categoryIcons";
+
+interface CategoryIconProps {
+  category?: Category;
+}
+
+// Category icon on a circle in the category's color
+const CategoryIcon = ({ category }: CategoryIconProps) => {
+  const Icon = getCategoryIcon(category?.icon || "tag");
+
+  return (
+    <span
+      className="flex-shrink-0 h-8 w-8 rounded-full flex items-center justify-center bg-gray-400"
+      style={category ? { backgroundColor: category.color } : undefined}
+    >
+      <Icon className="h-4 w-4 text-white" />
+    </span>
+  );
+};
+
+export default CategoryIcon;
@@ -0,0 +1,328 @@
+import React, { useState } from "react";
+import { Archive, ArchiveRestore, Merge, Pencil, X } from "lucide-react";
+import type { Category, TransactionKind } from "../types";
+import { findCategory } from "../utils/categories";
+import { CATEGORY_ICONS } from "../utils/categoryIcons";
+import CategoryIcon from "./categoryIcon";
+
+interface CategoryManagerProps {
+  darkMode: boolean;
+  categories: Category[];
+  onSave: (originalName: string | null, category: Category) => void;
+  onMerge: (from: string, to: string) => void;
+  onClose: () => void;
+}
+
+const emptyForm = {
+  name: "",
+  kind: "expense" as TransactionKind,
+  color: "#6366f1",
+  icon: "tag",
+};
+
+const CategoryManager = ({
+  darkMode,
+  categories,
+  onSave,
+  onMerge,
+  onClose,
+}: CategoryManagerProps) => {
+  const [form, setForm] = useState(emptyForm);
+  const [editing, setEditing] = useState<Category | null>(null);
+  const [mergeSource, setMergeSource] = useState<string | null>(null);
+  const [mergeTarget, setMergeTarget] = useState("");
+  const [error, setError] = useState("");
+
+  const inputClassName = `mt-1 block w-full border ${
+    darkMode ? "bg-gray-700 border-gray-600 text-white" : "border-gray-300"
+  } rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm`;
+
+  const labelClassName = `block text-sm font-medium ${
+    darkMode ? "text-gray-200" : "text-gray-700"
+  }`;
+
+  const mutedClassName = darkMode ? "text-gray-400" : "text-gray-500";
+
+  const iconButtonClassName = `p-2 rounded-lg ${
+    darkMode
+      ? "text-gray-400 hover:bg-gray-700"
+      : "text-gray-500 hover:bg-gray-100"
+  }`;
+
+  const resetForm = () => {
+    setForm(emptyForm);
+    setEditing(null);
+    setError("");
+  };
+
+  const saveCategory = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = form.name.trim();
+    if (!name) return;
+
+    // Names identify categories, so they must stay unique
+    if (name !== editing?.name && findCategory(categories, name)) {
+      setError(
+        `"${name}" already exists. Use merge to combine two categories.`
+      );
+      return;
+    }
+
+    onSave(editing ? editing.name : null, {
+      name,
+      kind: form.kind,
+      color: form.color,
+      icon: form.icon,
+      archived: editing ? editing.archived : false,
+    });
+    resetForm();
+  };
+
+  const editCategory = (category: Category) => {
+    setEditing(category);
+    setError("");
+    setForm({
+      name: category.name,
+      kind: category.kind,
+      color: category.color,
+      icon: category.icon,
+    });
+  };
+
+  const toggleArchived = (category: Category) => {
+    onSave(category.name, { ...category, archived: !category.archived });
+  };
+
+  const confirmMerge = () => {
+    if (!mergeSource || !mergeTarget) return;
+    onMerge(mergeSource, mergeTarget);
+    setMergeSource(null);
+    setMergeTarget("");
+    if (editing?.name === mergeSource) resetForm();
+  };
+
+  const renderGroup = (kind: TransactionKind, title: string) => (
+    <div>
+      <h3 className={`${labelClassName} mb-2`}>{title}</h3>
+      <ul
+        className={`divide-y ${
+          darkMode ? "divide-gray-700" : "divide-gray-200"
+        }`}
+      >
+        {categories
+          .filter((category) => category.kind === kind)
+          .map((category) => {
+            const mergeOptions = categories.filter(
+              (c) => c.kind === kind && c.name !== category.name
+            );
+
+            return (
+              <li key={category.name} className="py-2">
+                <div className="flex items-center">
+                  <CategoryIcon category={category} />
+                  <span
+                    className={`ml-3 flex-1 text-sm font-medium truncate ${
+                      category.archived
+                        ? mutedClassName
+                        : darkMode
+                        ? "text-white"
+                        : "text-gray-900"
+                    }`}
+                  >
+                    {category.name}
+                    {category.archived && (
+                      <span className="ml-2 text-xs">(archived)</span>
+                    )}
+                  </span>
+                  <button
+                    onClick={() => editCategory(category)}
+                    className={iconButtonClassName}
+                    title="Edit category"
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => toggleArchived(category)}
+                    className={iconButtonClassName}
+                    title={
+                      category.archived
+                        ? "Restore category"
+                        : "Archive category"
+                    }
+                  >
+                    {category.archived ? (
+                      <ArchiveRestore className="h-4 w-4" />
+                    ) : (
+                      <Archive className="h-4 w-4" />
+                    )}
+                  </button>
+                  <button
+                    onClick={() => {
+                      setMergeSource(
+                        mergeSource === category.name ? null : category.name
+                      );
+                      setMergeTarget("");
+                    }}
+                    disabled={mergeOptions.length === 0}
+                    className={`${iconButtonClassName} disabled:opacity-50`}
+                    title="Merge into another category"
+                  >
+                    <Merge className="h-4 w-4" />
+                  </button>
+                </div>
+                {mergeSource === category.name && (
+                  <div className="mt-2 ml-11 flex items-center space-x-2">
+                    <select
+                      aria-label="Merge into"
+                      value={mergeTarget}
+                      onChange={(e) => setMergeTarget(e.target.value)}
+                      className={`flex-1 ${inputClassName} mt-0`}
+                    >
+                      <option value="">Merge into...</option>
+                      {mergeOptions.map((option) => (
+                        <option key={option.name} value={option.name}>
+                          {option.name}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={confirmMerge}
+                      disabled={!mergeTarget}
+                      className="px-3 py-2 rounded-md text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+                    >
+                      Merge
+                    </button>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+      </ul>
+    </div>
+  );
+
+  return (
+    <div
+      className={`${
+        darkMode ? "bg-gray-800" : "bg-white"
+      } p-6 rounded-lg shadow`}
+    >
+      <div className="flex justify-between items-center mb-4">
+        <h2
+          className={`text-xl font-bold ${
+            darkMode ? "text-white" : "text-gray-900"
+          }`}
+        >
+          Manage Categories
+        </h2>
+        <button
+          onClick={onClose}
+          className={`p-2 rounded-lg ${
+            darkMode ? "bg-gray-700" : "bg-gray-100"
+          }`}
+        >
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+
+      <form onSubmit={saveCategory} className="mb-6 space-y-4">
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-4 items-end">
+          <div className="sm:col-span-2">
+            <label htmlFor="category-name" className={labelClassName}>
+              Name
+            </label>
+            <input
+              type="text"
+              id="category-name"
+              required
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label htmlFor="category-kind" className={labelClassName}>
+              Type
+            </label>
+            <select
+              id="category-kind"
+              value={form.kind}
+              // Existing entries would end up on the wrong side of the books
+              disabled={!!editing}
+              onChange={(e) =>
+                setForm({ ...form, kind: e.target.value as TransactionKind })
+              }
+              className={`${inputClassName} disabled:opacity-50`}
+            >
+              <option value="expense">Expense</option>
+              <option value="income">Income</option>
+            </select>
+          </div>
+          <div>
+            <label htmlFor="category-color" className={labelClassName}>
+              Color
+            </label>
+            <input
+              type="color"
+              id="category-color"
+              value={form.color}
+              onChange={(e) => setForm({ ...form, color: e.target.value })}
+              className="mt-1 block h-9 w-full rounded-md cursor-pointer"
+            />
+          </div>
+        </div>
+        <div>
+          <span className={labelClassName}>Icon</span>
+          <div className="mt-1 flex flex-wrap gap-2">
+            {Object.entries(CATEGORY_ICONS).map(([key, Icon]) => (
+              <button
+                key={key}
+                type="button"
+                onClick={() => setForm({ ...form, icon: key })}
+                className={`p-2 rounded-lg border ${
+                  form.icon === key
+                    ? "border-indigo-500 bg-indigo-500 text-white"
+                    : darkMode
+                    ? "border-gray-600 text-gray-300"
+                    : "border-gray-300 text-gray-600"
+                }`}
+                title={key}
+              >
+                <Icon className="h-4 w-4" />
+              </button>
+            ))}
+          </div>
+        </div>
+        {error && <p className="text-sm text-red-500">{error}</p>}
+        <div className="flex space-x-2">
+          <button
+            type="submit"
+            className="inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-indigo-600 text-sm font-medium text-white hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+          >
+            {editing ? "Save Category" : "Add Category"}
+          </button>
+          {editing && (
+            <button
+              type="button"
+              onClick={resetForm}
+              className={`px-4 py-2 rounded-md text-sm font-medium ${
+                darkMode
+                  ? "bg-gray-700 text-white hover:bg-gray-600"
+                  : "bg-gray-100 text-gray-800 hover:bg-gray-200"
+              }`}
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      </form>
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+        {renderGroup("expense", "Expense Categories")}
+        {renderGroup("income", "Income Categories")}
+      </div>
+    </div>
+  );
+};
+
+export default CategoryManager;
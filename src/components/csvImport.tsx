@@ -0,0 +1,488 @@
+import React, { useState } from "react";
+import { AlertCircle, Upload, X } from "lucide-react";
+import type { Account, EntryKind, Expense } from "../types";
+import { getFallbackCategory } from "../utils/categories";
+import { formatMoney } from "../utils/currency";
+import {
+  getDuplicateKey,
+  parseAmount,
+  parseCsv,
+  parseDate,
+} from "../utils/csv";
+
+interface CsvImportProps {
+  darkMode: boolean;
+  categories: string[];
+  incomeCategories: string[];
+  expenses: Expense[];
+  // Accounts the file can be imported into
+  accounts: Account[];
+  // Used for rows without a currency column
+  homeCurrency: string;
+  onImport: (expenses: Expense[]) => void;
+  onClose: () => void;
+}
+
+type Field =
+  | "date"
+  | "amount"
+  | "currency"
+  | "category"
+  | "description"
+  | "type"
+  | "account"
+  | "toAccount";
+
+type ParsedRow = {
+  line: number;
+  expense?: Expense;
+  error?: string;
+  duplicate: boolean;
+};
+
+const fields: { key: Field; label: string; hints: string[] }[] = [
+  { key: "date", label: "Date", hints: ["date", "time"] },
+  { key: "amount", label: "Amount", hints: ["amount", "value", "total"] },
+  { key: "currency", label: "Currency", hints: ["currency"] },
+  { key: "category", label: "Category", hints: ["category"] },
+  {
+    key: "description",
+    label: "Description",
+    hints: ["description", "memo", "payee", "note", "name"],
+  },
+  { key: "type", label: "Type", hints: ["type", "kind"] },
+  { key: "account", label: "Account", hints: ["account"] },
+  { key: "toAccount", label: "To Account", hints: ["to account"] },
+];
+
+const kinds: EntryKind[] = ["expense", "income", "transfer"];
+
+// Rows shown in the preview table
+const PREVIEW_LIMIT = 20;
+
+// Pick the first column whose header mentions one of the field hints
+const guessMapping = (header: string[]) => {
+  const mapping = {} as Record<Field, number>;
+  fields.forEach(({ key, hints }) => {
+    mapping[key] = header.findIndex((column) =>
+      hints.some((hint) => column.toLowerCase().includes(hint))
+    );
+  });
+  return mapping;
+};
+
+const CsvImport = ({
+  darkMode,
+  categories,
+  incomeCategories,
+  expenses,
+  accounts,
+  homeCurrency,
+  onImport,
+  onClose,
+}: CsvImportProps) => {
+  const [fileName, setFileName] = useState("");
+  const [rows, setRows] = useState<string[][]>([]);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<Record<Field, number>>({
+    date: -1,
+    amount: -1,
+    currency: -1,
+    category: -1,
+    description: -1,
+    type: -1,
+    account: -1,
+    toAccount: -1,
+  });
+  const [categoryMap, setCategoryMap] = useState<Record<string, string>>({});
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [accountId, setAccountId] = useState(accounts[0]?.id || "");
+
+  const inputClassName = `mt-1 block w-full border ${
+    darkMode ? "bg-gray-700 border-gray-600 text-white" : "border-gray-300"
+  } rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm`;
+
+  const labelClassName = `block text-sm font-medium ${
+    darkMode ? "text-gray-200" : "text-gray-700"
+  }`;
+
+  const mutedClassName = darkMode ? "text-gray-400" : "text-gray-500";
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const parsed = parseCsv(await file.text());
+    setFileName(file.name);
+    setRows(parsed);
+    setMapping(guessMapping(parsed[0] || []));
+    setCategoryMap({});
+  };
+
+  const header = rows[0] || [];
+  const columnCount = Math.max(0, ...rows.map((row) => row.length));
+  const columns = Array.from({ length: columnCount }, (_, index) =>
+    hasHeader && header[index] ? header[index] : `Column ${index + 1}`
+  );
+  const dataRows = hasHeader ? rows.slice(1) : rows;
+
+  const fallbackCategory = getFallbackCategory(categories, "Others");
+
+  const matchCategory = (value: string) =>
+    [...categories, ...incomeCategories].find(
+      (category) => category.toLowerCase() === value.trim().toLowerCase()
+    );
+
+  const readField = (row: string[], field: Field) =>
+    mapping[field] === -1 ? "" : (row[mapping[field]] || "").trim();
+
+  // Accounts are matched by name; rows without a known one go into the
+  // chosen import account
+  const matchAccount = (value: string) =>
+    accounts.find(
+      (account) => account.name.toLowerCase() === value.toLowerCase()
+    );
+
+  // A Type column, as written by the export, decides the kind. Without one,
+  // rows in an income category are imported as income.
+  const matchKind = (value: string) =>
+    kinds.find((kind) => kind === value.toLowerCase());
+
+  const rawCategories = dataRows.map((row) => readField(row, "category"));
+  const rawKinds = dataRows.map((row) => matchKind(readField(row, "type")));
+  const unknownCategories = Array.from(
+    new Set(
+      rawCategories.filter(
+        (value, index) =>
+          rawKinds[index] !== "transfer" && !matchCategory(value)
+      )
+    )
+  );
+
+  const existingKeys = new Set(expenses.map(getDuplicateKey));
+  const seenKeys = new Set<string>();
+
+  const parsedRows: ParsedRow[] = dataRows.map((row, index) => {
+    const line = index + (hasHeader ? 2 : 1);
+    const date =
+      mapping.date === -1 ? null : parseDate(row[mapping.date] || "");
+    const amount =
+      mapping.amount === -1 ? NaN : parseAmount(row[mapping.amount] || "");
+
+    if (!date) return { line, error: "Invalid date", duplicate: false };
+    if (isNaN(amount) || amount === 0) {
+      return { line, error: "Invalid amount", duplicate: false };
+    }
+
+    const rawCurrency = readField(row, "currency");
+    const rawCategory = rawCategories[index];
+    const category =
+      matchCategory(rawCategory) ||
+      categoryMap[rawCategory] ||
+      fallbackCategory;
+    const kind =
+      rawKinds[index] ||
+      (incomeCategories.includes(category) ? "income" : "expense");
+    const fromAccountId =
+      matchAccount(readField(row, "account"))?.id || accountId;
+
+    const entry = {
+      id: `${Date.now()}-${index}`,
+      amount: Math.abs(amount),
+      currency: /^[A-Za-z]{3}$/.test(rawCurrency)
+        ? rawCurrency.toUpperCase()
+        : homeCurrency,
+      description: readField(row, "description"),
+      date: date.toISOString(),
+      accountId: fromAccountId,
+    };
+
+    let expense: Expense;
+    if (kind === "transfer") {
+      // Transfers have no category and need an account to go to
+      const toAccount = matchAccount(readField(row, "toAccount"));
+      if (!toAccount || toAccount.id === fromAccountId) {
+        return { line, error: "Invalid transfer account", duplicate: false };
+      }
+      expense = {
+        ...entry,
+        kind,
+        category: "",
+        toAccountId: toAccount.id,
+      };
+    } else {
+      expense = { ...entry, kind, category };
+    }
+
+    // Duplicates of stored expenses or of earlier rows in the same file
+    const key = getDuplicateKey(expense);
+    const duplicate = existingKeys.has(key) || seenKeys.has(key);
+    seenKeys.add(key);
+
+    return { line, expense, duplicate };
+  });
+
+  const importable = parsedRows.filter(
+    (row) => row.expense && !(skipDuplicates && row.duplicate)
+  );
+  const errorCount = parsedRows.filter((row) => row.error).length;
+  const duplicateCount = parsedRows.filter((row) => row.duplicate).length;
+
+  const handleImport = () => {
+    onImport(importable.map((row) => row.expense as Expense));
+  };
+
+  return (
+    <div className="fixed z-10 inset-0 overflow-y-auto">
+      <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity"></div>
+        <div
+          className={`inline-block align-bottom ${
+            darkMode ? "bg-gray-800" : "bg-white"
+          } rounded-lg px-4 pt-5 pb-4 text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-3xl sm:w-full sm:p-6`}
+        >
+          <div className="absolute top-0 right-0 pt-4 pr-4">
+            <button
+              onClick={onClose}
+              className={`${
+                darkMode ? "bg-gray-800" : "bg-white"
+              } rounded-md text-gray-400 hover:text-gray-500 focus:outline-none`}
+            >
+              <X className="h-6 w-6" />
+            </button>
+          </div>
+
+          <h3
+            className={`text-lg font-medium mb-4 ${
+              darkMode ? "text-white" : "text-gray-900"
+            }`}
+          >
+            Import Transactions from CSV
+          </h3>
+
+          <label
+            className={`flex items-center justify-center px-4 py-6 border-2 border-dashed rounded-lg cursor-pointer ${
+              darkMode
+                ? "border-gray-600 text-gray-300"
+                : "border-gray-300 text-gray-600"
+            }`}
+          >
+            <Upload className="h-5 w-5 mr-2" />
+            {fileName || "Choose a CSV file"}
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              className="hidden"
+              onChange={handleFile}
+            />
+          </label>
+
+          {rows.length > 0 && (
+            <div className="mt-6 space-y-6">
+              <div>
+                <label
+                  className={`inline-flex items-center text-sm ${mutedClassName}`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={hasHeader}
+                    onChange={(e) => setHasHeader(e.target.checked)}
+                    className="mr-2"
+                  />
+                  First row contains column names
+                </label>
+                <div className="mt-3">
+                  <label htmlFor="csv-account" className={labelClassName}>
+                    Import into account
+                  </label>
+                  <p className={`text-xs ${mutedClassName}`}>
+                    Used for rows without an Account column or with an account
+                    that doesn't exist
+                  </p>
+                  <select
+                    id="csv-account"
+                    value={accountId}
+                    onChange={(e) => setAccountId(e.target.value)}
+                    className={inputClassName}
+                  >
+                    {accounts.map((account) => (
+                      <option key={account.id} value={account.id}>
+                        {account.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="mt-3 grid grid-cols-2 gap-4 sm:grid-cols-4">
+                  {fields.map(({ key, label }) => (
+                    <div key={key}>
+                      <label htmlFor={`csv-${key}`} className={labelClassName}>
+                        {label}
+                      </label>
+                      <select
+                        id={`csv-${key}`}
+                        value={mapping[key]}
+                        onChange={(e) =>
+                          setMapping({
+                            ...mapping,
+                            [key]: Number(e.target.value),
+                          })
+                        }
+                        className={inputClassName}
+                      >
+                        <option value={-1}>Not mapped</option>
+                        {columns.map((column, index) => (
+                          <option key={index} value={index}>
+                            {column}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {unknownCategories.length > 0 && (
+                <div>
+                  <h4 className={labelClassName}>Map unknown categories</h4>
+                  <div className="mt-2 grid grid-cols-1 gap-3 sm:grid-cols-2">
+                    {unknownCategories.map((value) => (
+                      <div key={value} className="flex items-center space-x-2">
+                        <span
+                          className={`flex-1 truncate text-sm ${mutedClassName}`}
+                        >
+                          {value || "(blank)"}
+                        </span>
+                        <select
+                          aria-label={`Category for ${value || "blank"}`}
+                          value={categoryMap[value] || fallbackCategory}
+                          onChange={(e) =>
+                            setCategoryMap({
+                              ...categoryMap,
+                              [value]: e.target.value,
+                            })
+                          }
+                          className={`flex-1 ${inputClassName}`}
+                        >
+                          <optgroup label="Expense">
+                            {categories.map((category) => (
+                              <option key={category} value={category}>
+                                {category}
+                              </option>
+                            ))}
+                          </optgroup>
+                          <optgroup label="Income">
+                            {incomeCategories.map((category) => (
+                              <option key={category} value={category}>
+                                {category}
+                              </option>
+                            ))}
+                          </optgroup>
+                        </select>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <h4 className={labelClassName}>Preview</h4>
+                  <label
+                    className={`inline-flex items-center text-sm ${mutedClassName}`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={skipDuplicates}
+                      onChange={(e) => setSkipDuplicates(e.target.checked)}
+                      className="mr-2"
+                    />
+                    Skip duplicates
+                  </label>
+                </div>
+                <div className="overflow-x-auto max-h-64">
+                  <table className="min-w-full text-sm">
+                    <thead className={mutedClassName}>
+                      <tr>
+                        <th className="text-left px-2 py-1">Line</th>
+                        <th className="text-left px-2 py-1">Date</th>
+                        <th className="text-right px-2 py-1">Amount</th>
+                        <th className="text-left px-2 py-1">Category</th>
+                        <th className="text-left px-2 py-1">Description</th>
+                        <th className="text-left px-2 py-1">Status</th>
+                      </tr>
+                    </thead>
+                    <tbody
+                      className={darkMode ? "text-gray-200" : "text-gray-900"}
+                    >
+                      {parsedRows.slice(0, PREVIEW_LIMIT).map((row) => (
+                        <tr key={row.line}>
+                          <td className="px-2 py-1">{row.line}</td>
+                          <td className="px-2 py-1">
+                            {row.expense &&
+                              new Date(row.expense.date).toLocaleDateString()}
+                          </td>
+                          <td className="px-2 py-1 text-right">
+                            {row.expense &&
+                              `${
+                                row.expense.kind === "income" ? "+" : ""
+                              }${formatMoney(
+                                row.expense.amount,
+                                row.expense.currency
+                              )}`}
+                          </td>
+                          <td className="px-2 py-1">
+                            {row.expense?.kind === "transfer"
+                              ? `Transfer to ${
+                                  accounts.find(
+                                    (account) =>
+                                      account.id === row.expense?.toAccountId
+                                  )?.name
+                                }`
+                              : row.expense?.category}
+                          </td>
+                          <td className="px-2 py-1 truncate max-w-xs">
+                            {row.expense?.description}
+                          </td>
+                          <td className="px-2 py-1">
+                            {row.error ? (
+                              <span className="inline-flex items-center text-red-500">
+                                <AlertCircle className="h-4 w-4 mr-1" />
+                                {row.error}
+                              </span>
+                            ) : row.duplicate ? (
+                              <span className="text-yellow-500">Duplicate</span>
+                            ) : (
+                              <span className="text-green-500">OK</span>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                <p className={`mt-2 text-sm ${mutedClassName}`}>
+                  {parsedRows.length} rows, {errorCount} with errors,{" "}
+                  {duplicateCount} duplicates
+                  {parsedRows.length > PREVIEW_LIMIT &&
+                    ` (showing first ${PREVIEW_LIMIT})`}
+                </p>
+              </div>
+            </div>
+          )}
+
+          <div className="mt-5 sm:mt-6">
+            <button
+              onClick={handleImport}
+              disabled={importable.length === 0}
+              className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-indigo-600 text-base font-medium text-white hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 sm:text-sm"
+            >
+              Import {importable.length} Transactions
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CsvImport;
@@ -0,0 +1,246 @@
+import React, { useState } from "react";
+import { AlertCircle, Trash2, Upload, X } from "lucide-react";
+import type { ExchangeRates } from "../types";
+import { hasRate, parseRatesFile } from "../utils/currency";
+
+interface CurrencySettingsProps {
+  darkMode: boolean;
+  homeCurrency: string;
+  exchangeRates: ExchangeRates;
+  // Currencies that appear on recorded entries
+  usedCurrencies: string[];
+  onHomeCurrencyChange: (currency: string) => void;
+  onRatesChange: (rates: ExchangeRates) => void;
+  onClose: () => void;
+}
+
+const CurrencySettings = ({
+  darkMode,
+  homeCurrency,
+  exchangeRates,
+  usedCurrencies,
+  onHomeCurrencyChange,
+  onRatesChange,
+  onClose,
+}: CurrencySettingsProps) => {
+  const [newCode, setNewCode] = useState("");
+  const [newRate, setNewRate] = useState("");
+  const [error, setError] = useState("");
+
+  const inputClassName = `block w-full border ${
+    darkMode ? "bg-gray-700 border-gray-600 text-white" : "border-gray-300"
+  } rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm`;
+
+  const labelClassName = `block text-sm font-medium ${
+    darkMode ? "text-gray-200" : "text-gray-700"
+  }`;
+
+  const mutedClassName = darkMode ? "text-gray-400" : "text-gray-500";
+
+  const codes = Object.keys(exchangeRates.rates).sort();
+  const missing = usedCurrencies.filter(
+    (currency) => !hasRate(exchangeRates, currency)
+  );
+
+  const setRate = (code: string, rate: number) => {
+    onRatesChange({
+      ...exchangeRates,
+      rates: { ...exchangeRates.rates, [code]: rate },
+    });
+  };
+
+  const removeRate = (code: string) => {
+    const rates = { ...exchangeRates.rates };
+    delete rates[code];
+    onRatesChange({ ...exchangeRates, rates });
+  };
+
+  const addRate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = newCode.trim().toUpperCase();
+    const rate = parseFloat(newRate);
+    if (!/^[A-Z]{3}$/.test(code) || !(rate > 0)) {
+      setError("Enter a three-letter currency code and a positive rate");
+      return;
+    }
+    setRate(code, rate);
+    setNewCode("");
+    setNewRate("");
+    setError("");
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const table = parseRatesFile(await file.text(), exchangeRates.base);
+    if (!table) {
+      setError(`No exchange rates found in ${file.name}`);
+      return;
+    }
+
+    // Keep the table's base listed so it can be picked as home currency
+    onRatesChange({
+      base: table.base,
+      rates: { ...table.rates, [table.base]: 1 },
+    });
+    setError("");
+  };
+
+  return (
+    <div
+      className={`${
+        darkMode ? "bg-gray-800" : "bg-white"
+      } p-6 rounded-lg shadow`}
+    >
+      <div className="flex justify-between items-center mb-4">
+        <h2
+          className={`text-xl font-bold ${
+            darkMode ? "text-white" : "text-gray-900"
+          }`}
+        >
+          Currencies
+        </h2>
+        <button
+          onClick={onClose}
+          className={`p-2 rounded-lg ${
+            darkMode ? "bg-gray-700" : "bg-gray-100"
+          }`}
+        >
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+        <div className="space-y-4">
+          <div>
+            <label htmlFor="home-currency" className={labelClassName}>
+              Home Currency
+            </label>
+            <select
+              id="home-currency"
+              value={homeCurrency}
+              onChange={(e) => onHomeCurrencyChange(e.target.value)}
+              className={`mt-1 ${inputClassName}`}
+            >
+              {codes.map((code) => (
+                <option key={code} value={code}>
+                  {code}
+                </option>
+              ))}
+            </select>
+            <p className={`mt-1 text-sm ${mutedClassName}`}>
+              Totals, budgets and charts are shown in this currency.
+            </p>
+          </div>
+
+          <label
+            className={`flex items-center justify-center px-4 py-4 border-2 border-dashed rounded-lg cursor-pointer text-sm ${
+              darkMode
+                ? "border-gray-600 text-gray-300"
+                : "border-gray-300 text-gray-600"
+            }`}
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            Import rates (JSON or CSV)
+            <input
+              type="file"
+              accept=".json,.csv,application/json,text/csv"
+              className="hidden"
+              onChange={handleFile}
+            />
+          </label>
+
+          {missing.length > 0 && (
+            <p className="flex items-start text-sm text-yellow-500">
+              <AlertCircle className="h-4 w-4 mr-1 mt-0.5 flex-shrink-0" />
+              No rate for {missing.join(", ")}. These amounts are counted
+              without conversion.
+            </p>
+          )}
+          {error && <p className="text-sm text-red-500">{error}</p>}
+        </div>
+
+        <div>
+          <h3 className={`${labelClassName} mb-2`}>
+            Exchange Rates (per 1 {exchangeRates.base})
+          </h3>
+          <ul
+            className={`divide-y ${
+              darkMode ? "divide-gray-700" : "divide-gray-200"
+            }`}
+          >
+            {codes.map((code) => (
+              <li key={code} className="py-2 flex items-center space-x-2">
+                <span
+                  className={`w-16 text-sm font-medium ${
+                    darkMode ? "text-white" : "text-gray-900"
+                  }`}
+                >
+                  {code}
+                </span>
+                <input
+                  type="number"
+                  aria-label={`${code} rate`}
+                  step="any"
+                  min="0"
+                  // The base always converts 1:1 with itself
+                  disabled={code === exchangeRates.base}
+                  value={exchangeRates.rates[code]}
+                  onChange={(e) => {
+                    const rate = parseFloat(e.target.value);
+                    if (rate > 0) setRate(code, rate);
+                  }}
+                  className={`${inputClassName} disabled:opacity-50`}
+                />
+                <button
+                  onClick={() => removeRate(code)}
+                  disabled={
+                    code === exchangeRates.base || code === homeCurrency
+                  }
+                  className={`p-2 rounded-lg disabled:opacity-30 ${
+                    darkMode
+                      ? "text-red-400 hover:bg-gray-700"
+                      : "text-red-500 hover:bg-gray-100"
+                  }`}
+                  title="Remove currency"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+          <form onSubmit={addRate} className="mt-3 flex space-x-2">
+            <input
+              type="text"
+              aria-label="Currency code"
+              placeholder="Code"
+              maxLength={3}
+              value={newCode}
+              onChange={(e) => setNewCode(e.target.value)}
+              className={`${inputClassName} w-24 uppercase`}
+            />
+            <input
+              type="number"
+              aria-label="Rate"
+              placeholder="Rate"
+              step="any"
+              min="0"
+              value={newRate}
+              onChange={(e) => setNewRate(e.target.value)}
+              className={inputClassName}
+            />
+            <button
+              type="submit"
+              className="px-4 py-2 rounded-md text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700"
+            >
+              Add
+            </button>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CurrencySettings;
@@ -0,0 +1,238 @@
+import React, { useState } from "react";
+import { AlertTriangle, ArrowLeftRight } from "lucide-react";
+import type { EnvelopeMove } from "../types";
+import { formatMoney } from "../utils/currency";
+import type { EnvelopeSummary } from "../utils/envelopes";
+
+interface EnvelopeBalancesProps {
+  darkMode: boolean;
+  summary: EnvelopeSummary;
+  // Home currency; envelopes are kept in it
+  currency: string;
+  onMove: (move: EnvelopeMove) => void;
+}
+
+const EnvelopeBalances = ({
+  darkMode,
+  summary,
+  currency,
+  onMove,
+}: EnvelopeBalancesProps) => {
+  // Envelope money is being moved into, and the move as typed
+  const [movingTo, setMovingTo] = useState<string | null>(null);
+  const [move, setMove] = useState({ from: "", amount: "" });
+
+  const inputClassName = `block w-full border ${
+    darkMode ? "bg-gray-700 border-gray-600 text-white" : "border-gray-300"
+  } rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm`;
+
+  const mutedClassName = darkMode ? "text-gray-400" : "text-gray-500";
+  const money = (amount: number) => formatMoney(amount, currency);
+
+  const findEnvelope = (category: string) =>
+    summary.envelopes.find((envelope) => envelope.category === category);
+
+  // Money can only come from envelopes that have some left
+  const sourcesFor = (category: string) =>
+    summary.envelopes.filter(
+      (envelope) => envelope.category !== category && envelope.available > 0
+    );
+
+  const openMove = (category: string) => {
+    if (movingTo === category) {
+      setMovingTo(null);
+      return;
+    }
+    const source = sourcesFor(category).sort(
+      (a, b) => b.available - a.available
+    )[0];
+    const shortfall = -(findEnvelope(category)?.available || 0);
+    setMovingTo(category);
+    setMove({
+      from: source?.category || "",
+      // Offer to cover the overspending, as far as the source allows
+      amount:
+        source && shortfall > 0
+          ? Math.min(shortfall, source.available).toFixed(2)
+          : "",
+    });
+  };
+
+  const source = findEnvelope(move.from);
+  const amount = parseFloat(move.amount);
+  // Allow for the amount offered being rounded to cents
+  const tooMuch = !!source && amount > source.available + 0.005;
+
+  const submitMove = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!movingTo || !source || !(amount > 0) || tooMuch) return;
+
+    onMove({
+      id: Date.now().toString(),
+      from: move.from,
+      to: movingTo,
+      amount,
+      date: new Date().toISOString(),
+    });
+    setMovingTo(null);
+  };
+
+  return (
+    <div
+      className={`${
+        darkMode ? "bg-gray-800" : "bg-white"
+      } p-6 rounded-lg shadow mb-8`}
+    >
+      <h3
+        className={`text-lg font-medium ${
+          darkMode ? "text-white" : "text-gray-900"
+        } mb-1`}
+      >
+        Envelopes
+      </h3>
+      <p className={`mb-4 flex flex-wrap gap-x-4 text-sm ${mutedClassName}`}>
+        <span>Unallocated income: {money(summary.unallocated)}</span>
+        {summary.swept > 0 && (
+          <span>Swept to savings: {money(summary.swept)}</span>
+        )}
+        {summary.unbudgeted > 0 && (
+          <span>
+            Spent outside envelopes this month: {money(summary.unbudgeted)}
+          </span>
+        )}
+      </p>
+
+      <ul
+        className={`divide-y ${
+          darkMode ? "divide-gray-700" : "divide-gray-200"
+        }`}
+      >
+        {summary.envelopes.map((envelope) => {
+          const overspent = envelope.available < 0;
+          const sources = sourcesFor(envelope.category);
+
+          return (
+            <li key={envelope.category} className="py-3">
+              <div className="flex items-center justify-between">
+                <span
+                  className={`text-sm font-medium flex items-center ${
+                    darkMode ? "text-white" : "text-gray-900"
+                  }`}
+                >
+                  {envelope.category}
+                  {overspent && (
+                    <AlertTriangle className="h-4 w-4 ml-2 text-red-500" />
+                  )}
+                </span>
+                <span
+                  className={`text-sm font-semibold ${
+                    overspent
+                      ? "text-red-500"
+                      : darkMode
+                      ? "text-white"
+                      : "text-gray-900"
+                  }`}
+                >
+                  {money(envelope.available)}
+                </span>
+              </div>
+              <div
+                className={`mt-1 flex flex-wrap items-center gap-x-4 text-xs ${mutedClassName}`}
+              >
+                {envelope.carried !== 0 && (
+                  <span>Carried {money(envelope.carried)}</span>
+                )}
+                <span>
+                  Funded {money(envelope.funded)} of{" "}
+                  {money(envelope.allocation)}
+                </span>
+                {(envelope.movedIn > 0 || envelope.movedOut > 0) && (
+                  <span>
+                    Moved {money(envelope.movedIn - envelope.movedOut)}
+                  </span>
+                )}
+                <span>Spent {money(envelope.spent)}</span>
+                <span>
+                  {envelope.rollover === "sweep"
+                    ? "Swept to savings"
+                    : "Rolls over"}
+                </span>
+                {sources.length > 0 && (
+                  <button
+                    onClick={() => openMove(envelope.category)}
+                    className="inline-flex items-center text-indigo-500 hover:text-indigo-600"
+                  >
+                    <ArrowLeftRight className="h-3 w-3 mr-1" />
+                    {overspent ? "Cover overspending" : "Move money in"}
+                  </button>
+                )}
+              </div>
+              {overspent && sources.length === 0 && (
+                <p
+                  className={`mt-1 text-xs ${
+                    darkMode ? "text-red-400" : "text-red-600"
+                  }`}
+                >
+                  No other envelope has money left to cover this
+                </p>
+              )}
+
+              {movingTo === envelope.category && (
+                <form onSubmit={submitMove} className="mt-2">
+                  <div className="flex space-x-2">
+                    <select
+                      aria-label="Move from"
+                      required
+                      value={move.from}
+                      onChange={(e) =>
+                        setMove({ ...move, from: e.target.value })
+                      }
+                      className={inputClassName}
+                    >
+                      {sources.map((option) => (
+                        <option key={option.category} value={option.category}>
+                          From {option.category} ({money(option.available)})
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      aria-label={`Amount in ${currency}`}
+                      placeholder={`Amount (${currency})`}
+                      step="0.01"
+                      min="0.01"
+                      required
+                      value={move.amount}
+                      onChange={(e) =>
+                        setMove({ ...move, amount: e.target.value })
+                      }
+                      className={inputClassName}
+                    />
+                    <button
+                      type="submit"
+                      disabled={tooMuch}
+                      className="px-4 py-2 rounded-md text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+                    >
+                      Move
+                    </button>
+                  </div>
+                  {tooMuch && source && (
+                    <p
+                      className={`mt-1 text-xs ${
+                        darkMode ? "text-red-400" : "text-red-600"
+                      }`}
+                    >
+                      {source.category} only has {money(source.available)} left
+                    </p>
+                  )}
+                </form>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default EnvelopeBalances;
@@ -0,0 +1,224 @@
+import { useState } from "react";
+import { Bookmark, Search, Trash2, X } from "lucide-react";
+import type { ExpenseFilter, FilterPreset, SortOrder } from "../types";
+import { EMPTY_FILTER, SORT_LABELS, isFilterActive } from "../utils/search";
+
+interface ExpenseFiltersProps {
+  darkMode: boolean;
+  filter: ExpenseFilter;
+  sort: SortOrder;
+  categories: string[];
+  tags: string[];
+  presets: FilterPreset[];
+  // Whether totals and charts follow the filter too
+  applyToCharts: boolean;
+  onFilterChange: (filter: ExpenseFilter) => void;
+  onSortChange: (sort: SortOrder) => void;
+  onPresetsChange: (presets: FilterPreset[]) => void;
+  onApplyToChartsChange: (applyToCharts: boolean) => void;
+}
+
+const ExpenseFilters = ({
+  darkMode,
+  filter,
+  sort,
+  categories,
+  tags,
+  presets,
+  applyToCharts,
+  onFilterChange,
+  onSortChange,
+  onPresetsChange,
+  onApplyToChartsChange,
+}: ExpenseFiltersProps) => {
+  const [presetName, setPresetName] = useState("");
+
+  const inputClassName = `block w-full border ${
+    darkMode ? "bg-gray-700 border-gray-600 text-white" : "border-gray-300"
+  } rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm`;
+
+  const mutedClassName = darkMode ? "text-gray-400" : "text-gray-500";
+
+  const update = (changes: Partial<ExpenseFilter>) =>
+    onFilterChange({ ...filter, ...changes });
+
+  // The preset that matches the current filter and order, if any
+  const activePreset = presets.find(
+    (preset) =>
+      preset.sort === sort &&
+      JSON.stringify(preset.filter) === JSON.stringify(filter)
+  );
+
+  const applyPreset = (name: string) => {
+    const preset = presets.find((p) => p.name === name);
+    if (!preset) return;
+    onFilterChange(preset.filter);
+    onSortChange(preset.sort);
+  };
+
+  // Saving under an existing name replaces that preset
+  const savePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    onPresetsChange([
+      ...presets.filter((preset) => preset.name !== name),
+      { name, filter, sort },
+    ]);
+    setPresetName("");
+  };
+
+  return (
+    <div className="space-y-3 mb-6">
+      <div className="flex flex-col gap-3 sm:flex-row">
+        <div className="relative flex-1">
+          <Search
+            className={`absolute left-3 top-2.5 h-4 w-4 ${mutedClassName}`}
+          />
+          <input
+            type="search"
+            aria-label="Search transactions"
+            value={filter.query}
+            onChange={(e) => update({ query: e.target.value })}
+            placeholder="Search, e.g. coffee >5 category:Food #trip"
+            className={`${inputClassName} pl-9`}
+          />
+        </div>
+        <select
+          aria-label="Sort by"
+          value={sort}
+          onChange={(e) => onSortChange(e.target.value as SortOrder)}
+          className={`${inputClassName} sm:w-44`}
+        >
+          {(Object.keys(SORT_LABELS) as SortOrder[]).map((order) => (
+            <option key={order} value={order}>
+              {SORT_LABELS[order]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-5">
+        <select
+          aria-label="Category"
+          value={filter.category}
+          onChange={(e) => update({ category: e.target.value })}
+          className={inputClassName}
+        >
+          <option value="">All categories</option>
+          {categories.map((category) => (
+            <option key={category} value={category}>
+              {category}
+            </option>
+          ))}
+        </select>
+        <select
+          aria-label="Tag"
+          value={filter.tag}
+          onChange={(e) => update({ tag: e.target.value })}
+          className={inputClassName}
+        >
+          <option value="">All tags</option>
+          {tags.map((tag) => (
+            <option key={tag} value={tag}>
+              #{tag}
+            </option>
+          ))}
+        </select>
+        <input
+          type="number"
+          aria-label="Minimum amount"
+          placeholder="Min amount"
+          step="0.01"
+          min="0"
+          value={filter.minAmount}
+          onChange={(e) => update({ minAmount: e.target.value })}
+          className={inputClassName}
+        />
+        <input
+          type="number"
+          aria-label="Maximum amount"
+          placeholder="Max amount"
+          step="0.01"
+          min="0"
+          value={filter.maxAmount}
+          onChange={(e) => update({ maxAmount: e.target.value })}
+          className={inputClassName}
+        />
+        <button
+          onClick={() => onFilterChange(EMPTY_FILTER)}
+          disabled={!isFilterActive(filter)}
+          className={`inline-flex items-center justify-center px-4 py-2 rounded-md text-sm font-medium disabled:opacity-50 ${
+            darkMode
+              ? "bg-gray-700 text-white hover:bg-gray-600"
+              : "bg-gray-100 text-gray-800 hover:bg-gray-200"
+          }`}
+        >
+          <X className="h-4 w-4 mr-1" />
+          Clear
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <Bookmark className={`h-5 w-5 ${mutedClassName}`} />
+        <select
+          aria-label="Saved filters"
+          value={activePreset?.name || ""}
+          onChange={(e) => applyPreset(e.target.value)}
+          className={`${inputClassName} w-auto`}
+        >
+          <option value="" disabled>
+            {presets.length > 0 ? "Saved filters" : "No saved filters"}
+          </option>
+          {presets.map((preset) => (
+            <option key={preset.name} value={preset.name}>
+              {preset.name}
+            </option>
+          ))}
+        </select>
+        {activePreset && (
+          <button
+            onClick={() =>
+              onPresetsChange(presets.filter((p) => p !== activePreset))
+            }
+            className={`p-2 rounded-lg ${
+              darkMode
+                ? "text-red-400 hover:bg-gray-700"
+                : "text-red-500 hover:bg-gray-100"
+            }`}
+            title="Delete saved filter"
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+        )}
+        <input
+          type="text"
+          aria-label="Preset name"
+          placeholder="Name this filter"
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+          className={`${inputClassName} w-auto`}
+        />
+        <button
+          onClick={savePreset}
+          disabled={!presetName.trim()}
+          className="px-4 py-2 rounded-md text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+        >
+          Save
+        </button>
+        <label
+          className={`inline-flex items-center text-sm ml-auto ${mutedClassName}`}
+        >
+          <input
+            type="checkbox"
+            checked={applyToCharts}
+            onChange={(e) => onApplyToChartsChange(e.target.checked)}
+            className="mr-2"
+          />
+          Apply to totals and charts
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default ExpenseFilters;
@@ -0,0 +1,324 @@
+import React, { useState } from "react";
+import { Archive, ArchiveRestore, Pencil, Trash2, X } from "lucide-react";
+import type { Account, SavingsGoal } from "../types";
+import { formatMoney } from "../utils/currency";
+import { fromDateInputValue, toDateInputValue } from "../utils/dateRange";
+
+interface GoalManagerProps {
+  darkMode: boolean;
+  goals: SavingsGoal[];
+  // Accounts a goal can be linked to
+  accounts: Account[];
+  currencies: string[];
+  homeCurrency: string;
+  onSave: (goal: SavingsGoal) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const emptyForm = (currency: string) => ({
+  name: "",
+  target: "",
+  currency,
+  deadline: "",
+  accountId: "",
+  autoAllocatePercent: "0",
+});
+
+const GoalManager = ({
+  darkMode,
+  goals,
+  accounts,
+  currencies,
+  homeCurrency,
+  onSave,
+  onDelete,
+  onClose,
+}: GoalManagerProps) => {
+  const [form, setForm] = useState(() => emptyForm(homeCurrency));
+  const [editing, setEditing] = useState<SavingsGoal | null>(null);
+
+  const inputClassName = `mt-1 block w-full border ${
+    darkMode ? "bg-gray-700 border-gray-600 text-white" : "border-gray-300"
+  } rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm`;
+
+  const labelClassName = `block text-sm font-medium ${
+    darkMode ? "text-gray-200" : "text-gray-700"
+  }`;
+
+  const mutedClassName = darkMode ? "text-gray-400" : "text-gray-500";
+
+  const iconButtonClassName = `p-2 rounded-lg ${
+    darkMode
+      ? "text-gray-400 hover:bg-gray-700"
+      : "text-gray-500 hover:bg-gray-100"
+  }`;
+
+  // An archived account stays selectable on a goal already linked to it
+  const accountOptions = accounts.filter(
+    (account) => !account.archived || account.id === form.accountId
+  );
+
+  const resetForm = () => {
+    setForm(emptyForm(homeCurrency));
+    setEditing(null);
+  };
+
+  const saveGoal = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = form.name.trim();
+    const target = parseFloat(form.target);
+    const autoAllocatePercent = parseFloat(form.autoAllocatePercent) || 0;
+    if (!name || !(target > 0)) return;
+
+    onSave({
+      id: editing ? editing.id : Date.now().toString(),
+      name,
+      target,
+      currency: form.currency,
+      deadline: form.deadline
+        ? fromDateInputValue(form.deadline).toISOString()
+        : null,
+      accountId: form.accountId || null,
+      autoAllocatePercent: Math.min(100, Math.max(0, autoAllocatePercent)),
+      contributions: editing ? editing.contributions : [],
+      createdAt: editing ? editing.createdAt : new Date().toISOString(),
+      archived: editing ? editing.archived : false,
+    });
+    resetForm();
+  };
+
+  const editGoal = (goal: SavingsGoal) => {
+    setEditing(goal);
+    setForm({
+      name: goal.name,
+      target: goal.target.toString(),
+      currency: goal.currency,
+      deadline: goal.deadline ? toDateInputValue(new Date(goal.deadline)) : "",
+      accountId: goal.accountId || "",
+      autoAllocatePercent: goal.autoAllocatePercent.toString(),
+    });
+  };
+
+  return (
+    <div
+      className={`${
+        darkMode ? "bg-gray-800" : "bg-white"
+      } p-6 rounded-lg shadow`}
+    >
+      <div className="flex justify-between items-center mb-4">
+        <h2
+          className={`text-xl font-bold ${
+            darkMode ? "text-white" : "text-gray-900"
+          }`}
+        >
+          Savings Goals
+        </h2>
+        <button
+          onClick={onClose}
+          className={`p-2 rounded-lg ${
+            darkMode ? "bg-gray-700" : "bg-gray-100"
+          }`}
+        >
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+
+      <form
+        onSubmit={saveGoal}
+        className="grid grid-cols-1 gap-4 sm:grid-cols-3 items-end mb-2"
+      >
+        <div>
+          <label htmlFor="goal-name" className={labelClassName}>
+            Name
+          </label>
+          <input
+            type="text"
+            id="goal-name"
+            required
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor="goal-target" className={labelClassName}>
+            Target
+          </label>
+          <input
+            type="number"
+            id="goal-target"
+            step="0.01"
+            min="0.01"
+            required
+            value={form.target}
+            onChange={(e) => setForm({ ...form, target: e.target.value })}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor="goal-currency" className={labelClassName}>
+            Currency
+          </label>
+          <select
+            id="goal-currency"
+            value={form.currency}
+            onChange={(e) => setForm({ ...form, currency: e.target.value })}
+            className={inputClassName}
+          >
+            {currencies.map((currency) => (
+              <option key={currency} value={currency}>
+                {currency}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="goal-deadline" className={labelClassName}>
+            Deadline (Optional)
+          </label>
+          <input
+            type="date"
+            id="goal-deadline"
+            value={form.deadline}
+            onChange={(e) => setForm({ ...form, deadline: e.target.value })}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor="goal-account" className={labelClassName}>
+            Linked Account (Optional)
+          </label>
+          <select
+            id="goal-account"
+            value={form.accountId}
+            onChange={(e) => setForm({ ...form, accountId: e.target.value })}
+            className={inputClassName}
+          >
+            <option value="">None</option>
+            {accountOptions.map((account) => (
+              <option key={account.id} value={account.id}>
+                {account.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="goal-allocate" className={labelClassName}>
+            Auto-allocate % of Income
+          </label>
+          <input
+            type="number"
+            id="goal-allocate"
+            step="1"
+            min="0"
+            max="100"
+            value={form.autoAllocatePercent}
+            onChange={(e) =>
+              setForm({ ...form, autoAllocatePercent: e.target.value })
+            }
+            className={inputClassName}
+          />
+        </div>
+        <div className="flex space-x-2 sm:col-start-3">
+          <button
+            type="submit"
+            className="flex-1 inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-indigo-600 text-sm font-medium text-white hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+          >
+            {editing ? "Save" : "Add Goal"}
+          </button>
+          {editing && (
+            <button
+              type="button"
+              onClick={resetForm}
+              className={`px-4 py-2 rounded-md text-sm font-medium ${
+                darkMode
+                  ? "bg-gray-700 text-white hover:bg-gray-600"
+                  : "bg-gray-100 text-gray-800 hover:bg-gray-200"
+              }`}
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      </form>
+      <p className={`mb-6 text-xs ${mutedClassName}`}>
+        Transfers into the linked account and the income share count toward the
+        goal from the day it is created, alongside contributions you log.
+      </p>
+
+      <ul
+        className={`divide-y ${
+          darkMode ? "divide-gray-700" : "divide-gray-200"
+        }`}
+      >
+        {goals.map((goal) => (
+          <li
+            key={goal.id}
+            className={`py-3 flex items-center ${
+              goal.archived ? "opacity-50" : ""
+            }`}
+          >
+            <div className="flex-1 min-w-0">
+              <p
+                className={`text-sm font-medium truncate ${
+                  darkMode ? "text-white" : "text-gray-900"
+                }`}
+              >
+                {goal.name}
+                {goal.archived && (
+                  <span className="ml-2 text-xs">(archived)</span>
+                )}
+              </p>
+              <p className={`text-sm ${mutedClassName}`}>
+                {formatMoney(goal.target, goal.currency)}
+                {goal.deadline &&
+                  ` by ${new Date(goal.deadline).toLocaleDateString()}`}
+                {goal.autoAllocatePercent > 0 &&
+                  ` · ${goal.autoAllocatePercent}% of income`}
+              </p>
+            </div>
+            <div className="flex items-center space-x-1 ml-4">
+              <button
+                onClick={() => editGoal(goal)}
+                className={iconButtonClassName}
+                title="Edit goal"
+              >
+                <Pencil className="h-4 w-4" />
+              </button>
+              <button
+                onClick={() => onSave({ ...goal, archived: !goal.archived })}
+                className={iconButtonClassName}
+                title={goal.archived ? "Restore goal" : "Archive goal"}
+              >
+                {goal.archived ? (
+                  <ArchiveRestore className="h-4 w-4" />
+                ) : (
+                  <Archive className="h-4 w-4" />
+                )}
+              </button>
+              <button
+                onClick={() => onDelete(goal.id)}
+                className={`p-2 rounded-lg ${
+                  darkMode
+                    ? "text-red-400 hover:bg-gray-700"
+                    : "text-red-500 hover:bg-gray-100"
+                }`}
+                title="Delete goal"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          </li>
+        ))}
+        {goals.length === 0 && (
+          <li className={`py-4 text-center text-sm ${mutedClassName}`}>
+            No savings goals yet
+          </li>
+        )}
+      </ul>
+    </div>
+  );
+};
+
+export default GoalManager;
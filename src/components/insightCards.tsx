@@ -0,0 +1,114 @@
+import { useState } from "react";
+import {
+  AlertTriangle,
+  ArrowRight,
+  BellOff,
+  CalendarRange,
+  Lightbulb,
+  TrendingUp,
+  Zap,
+} from "lucide-react";
+import type { Insight, InsightKind } from "../utils/insights";
+
+interface InsightCardsProps {
+  darkMode: boolean;
+  // Ranked, most important first
+  insights: Insight[];
+  onShowTransactions: (insight: Insight) => void;
+}
+
+// Insights shown before "Show all"
+const VISIBLE_COUNT = 6;
+
+const kindStyles: Record<
+  InsightKind,
+  { icon: typeof Lightbulb; color: string }
+> = {
+  budgetOverrun: { icon: AlertTriangle, color: "text-red-500" },
+  unusual: { icon: Zap, color: "text-yellow-500" },
+  spike: { icon: TrendingUp, color: "text-orange-500" },
+  monthChange: { icon: CalendarRange, color: "text-indigo-500" },
+  dormantSubscription: { icon: BellOff, color: "text-blue-500" },
+};
+
+const InsightCards = ({
+  darkMode,
+  insights,
+  onShowTransactions,
+}: InsightCardsProps) => {
+  const [showAll, setShowAll] = useState(false);
+
+  const mutedClassName = darkMode ? "text-gray-400" : "text-gray-500";
+  const visible = showAll ? insights : insights.slice(0, VISIBLE_COUNT);
+
+  return (
+    <div
+      className={`${
+        darkMode ? "bg-gray-800" : "bg-white"
+      } p-6 rounded-lg shadow mb-8`}
+    >
+      <div className="flex items-center justify-between mb-4">
+        <h3
+          className={`text-lg font-medium flex items-center ${
+            darkMode ? "text-white" : "text-gray-900"
+          }`}
+        >
+          <Lightbulb className="h-5 w-5 mr-2 text-yellow-500" />
+          Smart Insights
+        </h3>
+        {insights.length > VISIBLE_COUNT && (
+          <button
+            onClick={() => setShowAll(!showAll)}
+            className="text-sm text-indigo-500 hover:text-indigo-600"
+          >
+            {showAll ? "Show fewer" : `Show all ${insights.length}`}
+          </button>
+        )}
+      </div>
+
+      {insights.length === 0 ? (
+        <p className={`text-sm ${mutedClassName}`}>
+          Nothing stands out right now. Insights appear here as your spending
+          history grows.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
+          {visible.map((insight) => {
+            const { icon: Icon, color } = kindStyles[insight.kind];
+            return (
+              <div
+                key={insight.id}
+                className={`p-4 rounded-lg flex flex-col ${
+                  darkMode ? "bg-gray-700" : "bg-gray-50"
+                }`}
+              >
+                <div className="flex items-start mb-2">
+                  <Icon className={`h-5 w-5 mr-2 flex-shrink-0 ${color}`} />
+                  <p
+                    className={`text-sm font-medium ${
+                      darkMode ? "text-white" : "text-gray-900"
+                    }`}
+                  >
+                    {insight.title}
+                  </p>
+                </div>
+                <p className={`text-sm flex-1 ${mutedClassName}`}>
+                  {insight.explanation}
+                </p>
+                <button
+                  onClick={() => onShowTransactions(insight)}
+                  className="mt-3 self-start inline-flex items-center text-sm text-indigo-500 hover:text-indigo-600"
+                >
+                  Show transactions
+                  <ArrowRight className="h-4 w-4 ml-1" />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InsightCards;
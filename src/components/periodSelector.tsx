@@ -0,0 +1,69 @@
+import { Calendar } from "lucide-react";
+import { PERIOD_LABELS, type PeriodPreset } from "../utils/dateRange";
+
+interface PeriodSelectorProps {
+  darkMode: boolean;
+  period: PeriodPreset;
+  customStart: string;
+  customEnd: string;
+  onPeriodChange: (period: PeriodPreset) => void;
+  onCustomRangeChange: (start: string, end: string) => void;
+}
+
+const PeriodSelector = ({
+  darkMode,
+  period,
+  customStart,
+  customEnd,
+  onPeriodChange,
+  onCustomRangeChange,
+}: PeriodSelectorProps) => {
+  const inputClassName = `border ${
+    darkMode ? "bg-gray-700 border-gray-600 text-white" : "border-gray-300"
+  } rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm`;
+
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <Calendar
+        className={`h-5 w-5 ${darkMode ? "text-gray-400" : "text-gray-500"}`}
+      />
+      <select
+        aria-label="Period"
+        value={period}
+        onChange={(e) => onPeriodChange(e.target.value as PeriodPreset)}
+        className={inputClassName}
+      >
+        {(Object.keys(PERIOD_LABELS) as PeriodPreset[]).map((preset) => (
+          <option key={preset} value={preset}>
+            {PERIOD_LABELS[preset]}
+          </option>
+        ))}
+      </select>
+      {period === "custom" && (
+        <>
+          <input
+            type="date"
+            aria-label="Start date"
+            value={customStart}
+            max={customEnd || undefined}
+            onChange={(e) => onCustomRangeChange(e.target.value, customEnd)}
+            className={inputClassName}
+          />
+          <span className={darkMode ? "text-gray-400" : "text-gray-500"}>
+            to
+          </span>
+          <input
+            type="date"
+            aria-label="End date"
+            value={customEnd}
+            min={customStart || undefined}
+            onChange={(e) => onCustomRangeChange(customStart, e.target.value)}
+            className={inputClassName}
+          />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PeriodSelector;
@@ -0,0 +1,78 @@
+import { AlertTriangle, Download, Trash2, X } from "lucide-react";
+
+interface QuarantineNoticeProps {
+  darkMode: boolean;
+  count: number;
+  onExport: () => void;
+  onDiscard: () => void;
+  onDismiss: () => void;
+}
+
+const QuarantineNotice = ({
+  darkMode,
+  count,
+  onExport,
+  onDiscard,
+  onDismiss,
+}: QuarantineNoticeProps) => {
+  return (
+    <div
+      className={`mb-8 p-4 rounded-lg border ${
+        darkMode
+          ? "bg-yellow-900/30 border-yellow-800"
+          : "bg-yellow-50 border-yellow-200"
+      }`}
+    >
+      <div className="flex items-start">
+        <AlertTriangle className="h-6 w-6 mr-2 flex-shrink-0 text-yellow-500" />
+        <div className="flex-1">
+          <h3
+            className={`text-lg font-medium ${
+              darkMode ? "text-white" : "text-gray-900"
+            }`}
+          >
+            Some saved data couldn't be read
+          </h3>
+          <p
+            className={`text-sm ${
+              darkMode ? "text-gray-300" : "text-gray-600"
+            }`}
+          >
+            {count === 1 ? "1 record was" : `${count} records were`} set aside
+            so the rest of your data could load. Export them to fix by hand, or
+            discard them.
+          </p>
+          <div className="mt-3 flex space-x-2">
+            <button
+              onClick={onExport}
+              className="inline-flex items-center px-3 py-2 rounded-md text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700"
+            >
+              <Download className="h-4 w-4 mr-1" />
+              Export
+            </button>
+            <button
+              onClick={onDiscard}
+              className={`inline-flex items-center px-3 py-2 rounded-md text-sm font-medium ${
+                darkMode
+                  ? "bg-gray-700 text-white hover:bg-gray-600"
+                  : "bg-gray-100 text-gray-800 hover:bg-gray-200"
+              }`}
+            >
+              <Trash2 className="h-4 w-4 mr-1" />
+              Discard
+            </button>
+          </div>
+        </div>
+        <button
+          onClick={onDismiss}
+          className={darkMode ? "text-gray-400" : "text-gray-500"}
+          title="Dismiss"
+        >
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default QuarantineNotice;
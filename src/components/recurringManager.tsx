@@ -0,0 +1,476 @@
+import React, { useState } from "react";
+import { Pencil, Trash2, X } from "lucide-react";
+import type {
+  Account,
+  ExchangeRates,
+  RecurrenceFrequency,
+  RecurringTemplate,
+  TransactionKind,
+} from "../types";
+import { convert, formatMoney } from "../utils/currency";
+import { fromDateInputValue, toDateInputValue } from "../utils/dateRange";
+import {
+  FREQUENCY_LABELS,
+  getMonthlyAmount,
+  getUpcomingOccurrences,
+  isActiveTemplate,
+} from "../utils/recurring";
+
+interface RecurringManagerProps {
+  darkMode: boolean;
+  categories: string[];
+  incomeCategories: string[];
+  templates: RecurringTemplate[];
+  accounts: Account[];
+  currencies: string[];
+  homeCurrency: string;
+  exchangeRates: ExchangeRates;
+  onSave: (template: RecurringTemplate) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const emptyForm = (currency: string, accountId: string) => ({
+  kind: "expense" as TransactionKind,
+  amount: "",
+  currency,
+  category: "",
+  description: "",
+  accountId,
+  frequency: "monthly" as RecurrenceFrequency,
+  interval: "30",
+  startDate: toDateInputValue(new Date()),
+  endDate: "",
+});
+
+const RecurringManager = ({
+  darkMode,
+  categories,
+  incomeCategories,
+  templates,
+  accounts,
+  currencies,
+  homeCurrency,
+  exchangeRates,
+  onSave,
+  onDelete,
+  onClose,
+}: RecurringManagerProps) => {
+  const defaultAccountId =
+    accounts.find((account) => !account.archived)?.id || "";
+  const [form, setForm] = useState(() =>
+    emptyForm(homeCurrency, defaultAccountId)
+  );
+  const [editing, setEditing] = useState<RecurringTemplate | null>(null);
+
+  const inputClassName = `mt-1 block w-full border ${
+    darkMode ? "bg-gray-700 border-gray-600 text-white" : "border-gray-300"
+  } rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm`;
+
+  const labelClassName = `block text-sm font-medium ${
+    darkMode ? "text-gray-200" : "text-gray-700"
+  }`;
+
+  const mutedClassName = darkMode ? "text-gray-400" : "text-gray-500";
+
+  const resetForm = () => {
+    setForm(emptyForm(homeCurrency, defaultAccountId));
+    setEditing(null);
+  };
+
+  const saveTemplate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = parseFloat(form.amount);
+    if (!(amount > 0) || !form.category || !form.accountId || !form.startDate) {
+      return;
+    }
+
+    onSave({
+      id: editing ? editing.id : Date.now().toString(),
+      kind: form.kind,
+      amount,
+      currency: form.currency,
+      category: form.category,
+      description: form.description,
+      accountId: form.accountId,
+      frequency: form.frequency,
+      interval: Math.max(1, parseInt(form.interval) || 1),
+      startDate: fromDateInputValue(form.startDate).toISOString(),
+      endDate: form.endDate
+        ? fromDateInputValue(form.endDate).toISOString()
+        : null,
+      lastGenerated: editing ? editing.lastGenerated : null,
+    });
+    resetForm();
+  };
+
+  const editTemplate = (template: RecurringTemplate) => {
+    setEditing(template);
+    setForm({
+      kind: template.kind,
+      amount: template.amount.toString(),
+      currency: template.currency,
+      category: template.category,
+      description: template.description,
+      accountId: template.accountId,
+      frequency: template.frequency,
+      interval: template.interval.toString(),
+      startDate: toDateInputValue(new Date(template.startDate)),
+      endDate: template.endDate
+        ? toDateInputValue(new Date(template.endDate))
+        : "",
+    });
+  };
+
+  const expenseTemplates = templates.filter(
+    (template) => template.kind === "expense"
+  );
+  const upcoming = getUpcomingOccurrences(expenseTemplates);
+  const monthlyCommitted = expenseTemplates
+    .filter((template) => isActiveTemplate(template))
+    .reduce(
+      (sum, template) =>
+        sum +
+        convert(
+          getMonthlyAmount(template),
+          template.currency,
+          homeCurrency,
+          exchangeRates
+        ),
+      0
+    );
+
+  return (
+    <div
+      className={`${
+        darkMode ? "bg-gray-800" : "bg-white"
+      } p-6 rounded-lg shadow`}
+    >
+      <div className="flex justify-between items-center mb-4">
+        <h2
+          className={`text-xl font-bold ${
+            darkMode ? "text-white" : "text-gray-900"
+          }`}
+        >
+          Recurring & Subscriptions
+        </h2>
+        <button
+          onClick={onClose}
+          className={`p-2 rounded-lg ${
+            darkMode ? "bg-gray-700" : "bg-gray-100"
+          }`}
+        >
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+
+      <form
+        onSubmit={saveTemplate}
+        className="grid grid-cols-1 gap-4 sm:grid-cols-4 items-end mb-6"
+      >
+        <div>
+          <label htmlFor="recurring-kind" className={labelClassName}>
+            Type
+          </label>
+          <select
+            id="recurring-kind"
+            value={form.kind}
+            onChange={(e) =>
+              setForm({
+                ...form,
+                kind: e.target.value as TransactionKind,
+                category: "",
+              })
+            }
+            className={inputClassName}
+          >
+            <option value="expense">Expense</option>
+            <option value="income">Income</option>
+          </select>
+        </div>
+        <div>
+          <label htmlFor="recurring-amount" className={labelClassName}>
+            Amount
+          </label>
+          <div className="flex space-x-2">
+            <input
+              type="number"
+              id="recurring-amount"
+              step="0.01"
+              min="0.01"
+              required
+              value={form.amount}
+              onChange={(e) => setForm({ ...form, amount: e.target.value })}
+              className={inputClassName}
+            />
+            <select
+              aria-label="Currency"
+              value={form.currency}
+              onChange={(e) => setForm({ ...form, currency: e.target.value })}
+              className={`${inputClassName} w-24`}
+            >
+              {currencies.map((currency) => (
+                <option key={currency} value={currency}>
+                  {currency}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <div>
+          <label htmlFor="recurring-category" className={labelClassName}>
+            Category
+          </label>
+          <select
+            id="recurring-category"
+            required
+            value={form.category}
+            onChange={(e) => setForm({ ...form, category: e.target.value })}
+            className={inputClassName}
+          >
+            <option value="">Select a category</option>
+            {(form.kind === "income" ? incomeCategories : categories).map(
+              (category) => (
+                <option key={category} value={category}>
+                  {category}
+                </option>
+              )
+            )}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="recurring-description" className={labelClassName}>
+            Description
+          </label>
+          <input
+            type="text"
+            id="recurring-description"
+            value={form.description}
+            onChange={(e) => setForm({ ...form, description: e.target.value })}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor="recurring-account" className={labelClassName}>
+            Account
+          </label>
+          <select
+            id="recurring-account"
+            required
+            value={form.accountId}
+            onChange={(e) => setForm({ ...form, accountId: e.target.value })}
+            className={inputClassName}
+          >
+            {/* An archived account stays selectable on templates using it */}
+            {accounts
+              .filter(
+                (account) => !account.archived || account.id === form.accountId
+              )
+              .map((account) => (
+                <option key={account.id} value={account.id}>
+                  {account.name}
+                </option>
+              ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="recurring-frequency" className={labelClassName}>
+            Frequency
+          </label>
+          <select
+            id="recurring-frequency"
+            value={form.frequency}
+            onChange={(e) =>
+              setForm({
+                ...form,
+                frequency: e.target.value as RecurrenceFrequency,
+              })
+            }
+            className={inputClassName}
+          >
+            {(Object.keys(FREQUENCY_LABELS) as RecurrenceFrequency[]).map(
+              (frequency) => (
+                <option key={frequency} value={frequency}>
+                  {FREQUENCY_LABELS[frequency]}
+                </option>
+              )
+            )}
+          </select>
+        </div>
+        {form.frequency === "custom" && (
+          <div>
+            <label htmlFor="recurring-interval" className={labelClassName}>
+              Every (days)
+            </label>
+            <input
+              type="number"
+              id="recurring-interval"
+              min="1"
+              required
+              value={form.interval}
+              onChange={(e) => setForm({ ...form, interval: e.target.value })}
+              className={inputClassName}
+            />
+          </div>
+        )}
+        <div>
+          <label htmlFor="recurring-start" className={labelClassName}>
+            Start Date
+          </label>
+          <input
+            type="date"
+            id="recurring-start"
+            required
+            value={form.startDate}
+            onChange={(e) => setForm({ ...form, startDate: e.target.value })}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor="recurring-end" className={labelClassName}>
+            End Date (Optional)
+          </label>
+          <input
+            type="date"
+            id="recurring-end"
+            min={form.startDate}
+            value={form.endDate}
+            onChange={(e) => setForm({ ...form, endDate: e.target.value })}
+            className={inputClassName}
+          />
+        </div>
+        <div className="flex space-x-2">
+          <button
+            type="submit"
+            className="flex-1 inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-indigo-600 text-sm font-medium text-white hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+          >
+            {editing ? "Save" : "Add Recurring"}
+          </button>
+          {editing && (
+            <button
+              type="button"
+              onClick={resetForm}
+              className={`px-4 py-2 rounded-md text-sm font-medium ${
+                darkMode
+                  ? "bg-gray-700 text-white hover:bg-gray-600"
+                  : "bg-gray-100 text-gray-800 hover:bg-gray-200"
+              }`}
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      </form>
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+        <div>
+          <h3 className={`${labelClassName} mb-2`}>Templates</h3>
+          <ul
+            className={`divide-y ${
+              darkMode ? "divide-gray-700" : "divide-gray-200"
+            }`}
+          >
+            {templates.map((template) => (
+              <li key={template.id} className="py-3 flex items-center">
+                <div className="flex-1 min-w-0">
+                  <p
+                    className={`text-sm font-medium truncate ${
+                      darkMode ? "text-white" : "text-gray-900"
+                    }`}
+                  >
+                    {template.description || template.category}
+                  </p>
+                  <p className={`text-sm ${mutedClassName}`}>
+                    {template.frequency === "custom"
+                      ? `Every ${template.interval} days`
+                      : FREQUENCY_LABELS[template.frequency]}
+                    {" · "}
+                    {template.category}
+                    {!isActiveTemplate(template) && " · Ended"}
+                  </p>
+                </div>
+                <span
+                  className={`text-sm font-semibold ${
+                    template.kind === "income"
+                      ? "text-green-500"
+                      : darkMode
+                      ? "text-white"
+                      : "text-gray-900"
+                  }`}
+                >
+                  {template.kind === "income" && "+"}
+                  {formatMoney(template.amount, template.currency)}
+                </span>
+                <div className="flex items-center space-x-1 ml-4">
+                  <button
+                    onClick={() => editTemplate(template)}
+                    className={`p-2 rounded-lg ${
+                      darkMode
+                        ? "text-gray-400 hover:bg-gray-700"
+                        : "text-gray-500 hover:bg-gray-100"
+                    }`}
+                    title="Edit recurring"
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => onDelete(template.id)}
+                    className={`p-2 rounded-lg ${
+                      darkMode
+                        ? "text-red-400 hover:bg-gray-700"
+                        : "text-red-500 hover:bg-gray-100"
+                    }`}
+                    title="Delete recurring"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </li>
+            ))}
+            {templates.length === 0 && (
+              <li className={`py-4 text-center ${mutedClassName}`}>
+                No recurring transactions yet
+              </li>
+            )}
+          </ul>
+        </div>
+
+        <div>
+          <div className="flex items-baseline justify-between mb-2">
+            <h3 className={labelClassName}>Upcoming (next 30 days)</h3>
+            <span className={`text-sm ${mutedClassName}`}>
+              Committed: {formatMoney(monthlyCommitted, homeCurrency)}/month
+            </span>
+          </div>
+          <ul
+            className={`divide-y ${
+              darkMode ? "divide-gray-700" : "divide-gray-200"
+            }`}
+          >
+            {upcoming.map(({ template, date }) => (
+              <li
+                key={`${template.id}-${date.getTime()}`}
+                className="py-2 flex justify-between text-sm"
+              >
+                <span className={darkMode ? "text-white" : "text-gray-900"}>
+                  {template.description || template.category}
+                </span>
+                <span className={mutedClassName}>
+                  {date.toLocaleDateString()} ·{" "}
+                  {formatMoney(template.amount, template.currency)}
+                </span>
+              </li>
+            ))}
+            {upcoming.length === 0 && (
+              <li className={`py-4 text-center ${mutedClassName}`}>
+                No charges in the next 30 days
+              </li>
+            )}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RecurringManager;
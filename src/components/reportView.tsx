@@ -0,0 +1,395 @@
+import { useRef, useState } from "react";
+import { ArrowLeft, FileDown, Printer } from "lucide-react";
+import type { Chart as ChartJS } from "chart.js";
+import { Bar, Pie } from "react-chartjs-2";
+import type { Budget, Expense } from "../types";
+import { formatMoney } from "../utils/currency";
+import { toDateInputValue } from "../utils/dateRange";
+import { downloadFile } from "../utils/download";
+import {
+  formatPercent,
+  getReport,
+  renderReportHtml,
+  type ReportKind,
+  type ReportPeriod,
+} from "../utils/report";
+
+interface ReportViewProps {
+  darkMode: boolean;
+  // Whole entries and category lines, both in the home currency
+  expenses: Expense[];
+  lines: Expense[];
+  budgets: Budget[];
+  currency: string;
+  getColor: (category: string) => string;
+  onClose: () => void;
+}
+
+// Parse the "YYYY-MM" of <input type="month"> and the year field
+const toPeriod = (kind: ReportKind, month: string, year: string) => {
+  const [monthYear, monthNumber] = month.split("-").map(Number);
+  return kind === "year"
+    ? { kind, year: parseInt(year, 10), month: 0 }
+    : { kind, year: monthYear, month: monthNumber - 1 };
+};
+
+const isValidPeriod = (period: ReportPeriod) =>
+  Number.isInteger(period.year) &&
+  period.year > 0 &&
+  period.month >= 0 &&
+  period.month < 12;
+
+// Charts render without animation so printing and the HTML export never
+// catch them halfway
+const chartOptions = {
+  maintainAspectRatio: false,
+  animation: false as const,
+};
+
+const ReportView = ({
+  darkMode,
+  expenses,
+  lines,
+  budgets,
+  currency,
+  getColor,
+  onClose,
+}: ReportViewProps) => {
+  const now = new Date();
+  // Kept as typed, like the other forms
+  const [kind, setKind] = useState<ReportKind>("month");
+  // "YYYY-MM", the format used by <input type="month">
+  const [month, setMonth] = useState(toDateInputValue(now).slice(0, 7));
+  const [year, setYear] = useState(now.getFullYear().toString());
+
+  const pieRef = useRef<ChartJS<"pie">>(null);
+  const barRef = useRef<ChartJS<"bar">>(null);
+
+  const period = toPeriod(kind, month, year);
+  const report = isValidPeriod(period)
+    ? getReport({ expenses, lines, budgets, currency, period })
+    : null;
+
+  const money = (amount: number) => formatMoney(amount, currency);
+
+  const inputClassName = `border ${
+    darkMode ? "bg-gray-700 border-gray-600 text-white" : "border-gray-300"
+  } rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm`;
+
+  const toolbarButtonClassName = `inline-flex items-center px-3 py-2 rounded-md text-sm font-medium ${
+    darkMode
+      ? "bg-gray-700 text-white hover:bg-gray-600"
+      : "bg-white text-gray-800 hover:bg-gray-100 shadow-sm"
+  }`;
+
+  const trendTitle = kind === "year" ? "Spending by Month" : "Spending by Day";
+
+  const exportHtml = () => {
+    if (!report) return;
+    const charts = [
+      { title: "Spending by Category", chart: pieRef.current },
+      { title: trendTitle, chart: barRef.current },
+    ].flatMap(({ title, chart }) =>
+      chart ? [{ title, image: chart.toBase64Image() }] : []
+    );
+    const name = kind === "year" ? year : month;
+    downloadFile(
+      renderReportHtml(report, charts),
+      `report-${name}.html`,
+      "text/html"
+    );
+  };
+
+  // Long tables may run over pages, but a heading stays with its content
+  const sectionClassName = "mt-8";
+  const headingClassName = "text-lg font-semibold mb-3 break-after-avoid";
+  const tableClassName = "w-full text-sm";
+  const headerCellClassName =
+    "py-2 px-2 text-left font-medium text-gray-500 border-b border-gray-200";
+  const cellClassName = "py-2 px-2 border-b border-gray-100";
+  const amountClassName = `${cellClassName} text-right`;
+
+  return (
+    <div
+      className={`min-h-screen print:min-h-0 print:bg-white ${
+        darkMode ? "bg-gray-900" : "bg-gray-100"
+      }`}
+    >
+      {/* Toolbar, left off the printout */}
+      <div className="max-w-4xl mx-auto px-4 pt-8 flex flex-wrap items-center gap-2 print:hidden">
+        <button onClick={onClose} className={toolbarButtonClassName}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back
+        </button>
+        <select
+          aria-label="Report type"
+          value={kind}
+          onChange={(e) => setKind(e.target.value as ReportKind)}
+          className={inputClassName}
+        >
+          <option value="month">Monthly</option>
+          <option value="year">Annual</option>
+        </select>
+        {kind === "month" ? (
+          <input
+            type="month"
+            aria-label="Month"
+            value={month}
+            onChange={(e) => setMonth(e.target.value)}
+            className={inputClassName}
+          />
+        ) : (
+          <input
+            type="number"
+            aria-label="Year"
+            min="1"
+            step="1"
+            value={year}
+            onChange={(e) => setYear(e.target.value)}
+            className={`${inputClassName} w-28`}
+          />
+        )}
+        <div className="flex-1"></div>
+        <button
+          onClick={() => window.print()}
+          disabled={!report}
+          className={`${toolbarButtonClassName} disabled:opacity-50`}
+        >
+          <Printer className="h-4 w-4 mr-2" />
+          Print / Save as PDF
+        </button>
+        <button
+          onClick={exportHtml}
+          disabled={!report}
+          className={`${toolbarButtonClassName} disabled:opacity-50`}
+        >
+          <FileDown className="h-4 w-4 mr-2" />
+          Export HTML
+        </button>
+      </div>
+
+      {/* The report itself is always laid out as a light page */}
+      <div className="max-w-4xl mx-auto p-4 print:p-0 print:max-w-none">
+        <article className="bg-white text-gray-900 rounded-lg shadow p-8 print:shadow-none print:rounded-none print:p-0">
+          {!report ? (
+            <p className="text-sm text-gray-500">
+              Choose a month or year to report on.
+            </p>
+          ) : (
+            <>
+              <h1 className="text-2xl font-bold">{report.title}</h1>
+              <p className="text-sm text-gray-500">
+                {report.range.start.toLocaleDateString()} –{" "}
+                {new Date(report.range.end.getTime() - 1).toLocaleDateString()}{" "}
+                · Amounts in {currency}
+              </p>
+
+              <section className="mt-6 grid grid-cols-2 sm:grid-cols-4 print:grid-cols-4 gap-4 break-inside-avoid">
+                {[
+                  { label: "Income", value: money(report.income) },
+                  { label: "Spending", value: money(report.spending) },
+                  { label: "Net", value: money(report.net) },
+                  {
+                    label: "Savings rate",
+                    value:
+                      report.savingsRate === null
+                        ? "—"
+                        : formatPercent(report.savingsRate),
+                  },
+                ].map(({ label, value }) => (
+                  <div
+                    key={label}
+                    className="rounded-lg border border-gray-200 p-3"
+                  >
+                    <p className="text-xs text-gray-500">{label}</p>
+                    <p className="text-lg font-semibold">{value}</p>
+                  </div>
+                ))}
+              </section>
+
+              {report.spending > 0 && (
+                <section className="mt-8 grid grid-cols-1 sm:grid-cols-2 print:grid-cols-2 gap-8 break-inside-avoid">
+                  <div>
+                    <h2 className={headingClassName}>Spending by Category</h2>
+                    <div className="h-64">
+                      <Pie
+                        ref={pieRef}
+                        data={{
+                          labels: report.categories.map(
+                            (entry) => entry.category
+                          ),
+                          datasets: [
+                            {
+                              data: report.categories.map(
+                                (entry) => entry.amount
+                              ),
+                              backgroundColor: report.categories.map((entry) =>
+                                getColor(entry.category)
+                              ),
+                            },
+                          ],
+                        }}
+                        options={chartOptions}
+                      />
+                    </div>
+                  </div>
+                  <div>
+                    <h2 className={headingClassName}>{trendTitle}</h2>
+                    <div className="h-64">
+                      <Bar
+                        ref={barRef}
+                        data={{
+                          labels: report.trend.map((point) => point.label),
+                          datasets: [
+                            {
+                              label: "Spending",
+                              data: report.trend.map((point) => point.amount),
+                              backgroundColor: "#6366f1",
+                            },
+                          ],
+                        }}
+                        options={{
+                          ...chartOptions,
+                          plugins: { legend: { display: false } },
+                        }}
+                      />
+                    </div>
+                  </div>
+                </section>
+              )}
+
+              <section className={sectionClassName}>
+                <h2 className={headingClassName}>Category Breakdown</h2>
+                {report.categories.length === 0 ? (
+                  <p className="text-sm text-gray-500">
+                    No spending in this period.
+                  </p>
+                ) : (
+                  <table className={tableClassName}>
+                    <thead>
+                      <tr>
+                        <th className={headerCellClassName}>Category</th>
+                        <th className={`${headerCellClassName} text-right`}>
+                          Entries
+                        </th>
+                        <th className={`${headerCellClassName} text-right`}>
+                          Amount
+                        </th>
+                        <th className={`${headerCellClassName} text-right`}>
+                          Share
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.categories.map((entry) => (
+                        <tr key={entry.category} className="break-inside-avoid">
+                          <td className={cellClassName}>
+                            <span
+                              className="inline-block h-3 w-3 rounded-full mr-2 align-middle"
+                              style={{
+                                backgroundColor: getColor(entry.category),
+                              }}
+                            ></span>
+                            {entry.category}
+                          </td>
+                          <td className={amountClassName}>{entry.count}</td>
+                          <td className={amountClassName}>
+                            {money(entry.amount)}
+                          </td>
+                          <td className={amountClassName}>
+                            {formatPercent(entry.share)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </section>
+
+              <section className={sectionClassName}>
+                <h2 className={headingClassName}>Top Merchants</h2>
+                {report.merchants.length === 0 ? (
+                  <p className="text-sm text-gray-500">
+                    No described spending in this period.
+                  </p>
+                ) : (
+                  <table className={tableClassName}>
+                    <thead>
+                      <tr>
+                        <th className={headerCellClassName}>Merchant</th>
+                        <th className={`${headerCellClassName} text-right`}>
+                          Entries
+                        </th>
+                        <th className={`${headerCellClassName} text-right`}>
+                          Amount
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.merchants.map((merchant) => (
+                        <tr key={merchant.name} className="break-inside-avoid">
+                          <td className={cellClassName}>{merchant.name}</td>
+                          <td className={amountClassName}>{merchant.count}</td>
+                          <td className={amountClassName}>
+                            {money(merchant.amount)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </section>
+
+              {report.budgets.length > 0 && (
+                <section className={sectionClassName}>
+                  <h2 className={headingClassName}>Budget vs. Actual</h2>
+                  <table className={tableClassName}>
+                    <thead>
+                      <tr>
+                        <th className={headerCellClassName}>Category</th>
+                        <th className={`${headerCellClassName} text-right`}>
+                          Budget
+                        </th>
+                        <th className={`${headerCellClassName} text-right`}>
+                          Actual
+                        </th>
+                        <th className={`${headerCellClassName} text-right`}>
+                          Difference
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.budgets.map((budget) => (
+                        <tr
+                          key={budget.category}
+                          className="break-inside-avoid"
+                        >
+                          <td className={cellClassName}>{budget.category}</td>
+                          <td className={amountClassName}>
+                            {money(budget.limit)}
+                          </td>
+                          <td className={amountClassName}>
+                            {money(budget.spent)}
+                          </td>
+                          <td
+                            className={`${amountClassName} ${
+                              budget.spent > budget.limit ? "text-red-600" : ""
+                            }`}
+                          >
+                            {money(budget.limit - budget.spent)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </section>
+              )}
+            </>
+          )}
+        </article>
+      </div>
+    </div>
+  );
+};
+
+export default ReportView;
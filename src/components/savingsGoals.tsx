@@ -0,0 +1,258 @@
+import React, { useState } from "react";
+import { CheckCircle, Plus, Trash2 } from "lucide-react";
+import type { ExchangeRates, Expense, SavingsGoal } from "../types";
+import { formatMoney } from "../utils/currency";
+import { fromDateInputValue, toDateInputValue } from "../utils/dateRange";
+import {
+  PACE_WINDOW_DAYS,
+  getGoalEntries,
+  getGoalProgress,
+  type GoalContributionSource,
+} from "../utils/goals";
+
+interface SavingsGoalsProps {
+  darkMode: boolean;
+  goals: SavingsGoal[];
+  expenses: Expense[];
+  exchangeRates: ExchangeRates;
+  // Saves a goal with contributions added or removed
+  onSave: (goal: SavingsGoal) => void;
+}
+
+const sourceLabels: Record<GoalContributionSource, string> = {
+  manual: "Contribution",
+  income: "Income share",
+  transfer: "Transfer",
+};
+
+const SavingsGoals = ({
+  darkMode,
+  goals,
+  expenses,
+  exchangeRates,
+  onSave,
+}: SavingsGoalsProps) => {
+  // Goal whose contribution form is open, and whose history is shown
+  const [contributingTo, setContributingTo] = useState<string | null>(null);
+  const [historyOf, setHistoryOf] = useState<string | null>(null);
+  const [contribution, setContribution] = useState({ amount: "", date: "" });
+
+  const inputClassName = `block w-full border ${
+    darkMode ? "bg-gray-700 border-gray-600 text-white" : "border-gray-300"
+  } rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm`;
+
+  const mutedClassName = darkMode ? "text-gray-400" : "text-gray-500";
+
+  const openContribution = (id: string) => {
+    setContributingTo(contributingTo === id ? null : id);
+    setContribution({ amount: "", date: toDateInputValue(new Date()) });
+  };
+
+  const addContribution = (e: React.FormEvent, goal: SavingsGoal) => {
+    e.preventDefault();
+    const amount = parseFloat(contribution.amount);
+    if (!(amount > 0) || !contribution.date) return;
+
+    onSave({
+      ...goal,
+      contributions: [
+        ...goal.contributions,
+        {
+          id: Date.now().toString(),
+          amount,
+          date: fromDateInputValue(contribution.date).toISOString(),
+        },
+      ],
+    });
+    setContributingTo(null);
+  };
+
+  const removeContribution = (goal: SavingsGoal, id: string) => {
+    onSave({
+      ...goal,
+      contributions: goal.contributions.filter((c) => c.id !== id),
+    });
+  };
+
+  return (
+    <div
+      className={`${
+        darkMode ? "bg-gray-800" : "bg-white"
+      } p-6 rounded-lg shadow mb-8`}
+    >
+      <h3
+        className={`text-lg font-medium ${
+          darkMode ? "text-white" : "text-gray-900"
+        } mb-4`}
+      >
+        Savings Goals
+      </h3>
+      <div className="space-y-6">
+        {goals.map((goal) => {
+          const entries = getGoalEntries(goal, expenses, exchangeRates);
+          const progress = getGoalProgress(goal, entries);
+
+          return (
+            <div key={goal.id}>
+              <div className="flex items-center justify-between mb-1">
+                <span
+                  className={`text-sm font-medium flex items-center ${
+                    darkMode ? "text-white" : "text-gray-900"
+                  }`}
+                >
+                  {goal.name}
+                  {progress.complete && (
+                    <CheckCircle className="h-4 w-4 ml-2 text-green-500" />
+                  )}
+                </span>
+                <span className={`text-sm ${mutedClassName}`}>
+                  {formatMoney(progress.saved, goal.currency)} /{" "}
+                  {formatMoney(goal.target, goal.currency)}
+                </span>
+              </div>
+              <div
+                className={`h-2 w-full rounded-full overflow-hidden ${
+                  darkMode ? "bg-gray-700" : "bg-gray-200"
+                }`}
+              >
+                <div
+                  className={`h-full rounded-full ${
+                    progress.complete || progress.onTrack
+                      ? "bg-green-500"
+                      : "bg-yellow-500"
+                  }`}
+                  style={{ width: `${progress.progress * 100}%` }}
+                ></div>
+              </div>
+
+              <div
+                className={`mt-1 flex flex-wrap gap-x-4 text-xs ${mutedClassName}`}
+              >
+                {progress.complete ? (
+                  <span>Goal reached</span>
+                ) : (
+                  <>
+                    {progress.requiredMonthly !== null && goal.deadline && (
+                      <span>
+                        Needs{" "}
+                        {formatMoney(progress.requiredMonthly, goal.currency)}
+                        /month to finish by{" "}
+                        {new Date(goal.deadline).toLocaleDateString()}
+                      </span>
+                    )}
+                    <span className={progress.onTrack ? "" : "text-yellow-500"}>
+                      {progress.projectedCompletion
+                        ? `At ${formatMoney(
+                            progress.monthlyPace,
+                            goal.currency
+                          )}/month, done by ${progress.projectedCompletion.toLocaleDateString()}`
+                        : `Nothing saved in the last ${PACE_WINDOW_DAYS} days`}
+                    </span>
+                  </>
+                )}
+              </div>
+
+              <div className="mt-2 flex space-x-4 text-sm">
+                <button
+                  onClick={() => openContribution(goal.id)}
+                  className="inline-flex items-center text-indigo-500 hover:text-indigo-600"
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add contribution
+                </button>
+                {entries.length > 0 && (
+                  <button
+                    onClick={() =>
+                      setHistoryOf(historyOf === goal.id ? null : goal.id)
+                    }
+                    className="text-indigo-500 hover:text-indigo-600"
+                  >
+                    {historyOf === goal.id ? "Hide history" : "History"}
+                  </button>
+                )}
+              </div>
+
+              {contributingTo === goal.id && (
+                <form
+                  onSubmit={(e) => addContribution(e, goal)}
+                  className="mt-2 flex space-x-2"
+                >
+                  <input
+                    type="number"
+                    aria-label={`Amount in ${goal.currency}`}
+                    placeholder={`Amount (${goal.currency})`}
+                    step="0.01"
+                    min="0.01"
+                    required
+                    value={contribution.amount}
+                    onChange={(e) =>
+                      setContribution({
+                        ...contribution,
+                        amount: e.target.value,
+                      })
+                    }
+                    className={inputClassName}
+                  />
+                  <input
+                    type="date"
+                    aria-label="Date"
+                    required
+                    value={contribution.date}
+                    onChange={(e) =>
+                      setContribution({ ...contribution, date: e.target.value })
+                    }
+                    className={inputClassName}
+                  />
+                  <button
+                    type="submit"
+                    className="px-4 py-2 rounded-md text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700"
+                  >
+                    Add
+                  </button>
+                </form>
+              )}
+
+              {historyOf === goal.id && (
+                <ul className={`mt-2 text-sm ${mutedClassName}`}>
+                  {entries.map((entry) => (
+                    <li
+                      key={`${entry.source}-${entry.id}`}
+                      className="flex items-center justify-between py-1"
+                    >
+                      <span>
+                        {new Date(entry.date).toLocaleDateString()} ·{" "}
+                        {sourceLabels[entry.source]}
+                      </span>
+                      <span className="flex items-center">
+                        <span
+                          className={entry.amount < 0 ? "text-red-500" : ""}
+                        >
+                          {formatMoney(entry.amount, goal.currency)}
+                        </span>
+                        {entry.source === "manual" && (
+                          <button
+                            onClick={() => removeContribution(goal, entry.id)}
+                            className={`ml-2 p-1 rounded-lg ${
+                              darkMode
+                                ? "text-red-400 hover:bg-gray-700"
+                                : "text-red-500 hover:bg-gray-100"
+                            }`}
+                            title="Remove contribution"
+                          >
+                            <Trash2 className="h-3 w-3" />
+                          </button>
+                        )}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default SavingsGoals;
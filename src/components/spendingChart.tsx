@@ -0,0 +1,183 @@
+import { useState } from "react";
+import { Chart } from "react-chartjs-2";
+import type { ChartData } from "chart.js";
+import type { Budget, Expense } from "../types";
+import type { DateRange } from "../utils/dateRange";
+import type { SpendingForecast } from "../utils/forecast";
+import {
+  formatBucketLabel,
+  getBudgetSeries,
+  getBuckets,
+  getForecastSeries,
+  getSpendingSeries,
+  type Granularity,
+} from "../utils/timeSeries";
+
+interface SpendingChartProps {
+  darkMode: boolean;
+  expenses: Expense[];
+  categories: string[];
+  colors: string[];
+  budgets: Budget[];
+  range: DateRange;
+  // Projection for the rest of the month, drawn past today when given
+  forecast?: SpendingForecast;
+}
+
+const granularities: Granularity[] = ["day", "week", "month"];
+
+const SpendingChart = ({
+  darkMode,
+  expenses,
+  categories,
+  colors,
+  budgets,
+  range,
+  forecast,
+}: SpendingChartProps) => {
+  const [granularity, setGranularity] = useState<Granularity>("day");
+
+  // An open-ended range runs on to the end of the forecast month
+  const buckets = getBuckets(
+    forecast && !range.end ? { ...range, end: forecast.end } : range,
+    expenses,
+    granularity
+  );
+  const series = getSpendingSeries(expenses, categories, buckets, granularity);
+  const textColor = darkMode ? "#fff" : "#000";
+
+  const projection =
+    forecast &&
+    getForecastSeries(
+      forecast,
+      buckets.map((_, index) =>
+        series.reduce((sum, values) => sum + values[index], 0)
+      ),
+      buckets,
+      granularity
+    );
+  const projectionColor = darkMode ? "#a5b4fc" : "#4f46e5";
+
+  const data: ChartData<"bar" | "line"> = {
+    labels: buckets.map((bucket) => formatBucketLabel(bucket, granularity)),
+    datasets: [
+      ...categories.map((category, index) => ({
+        type: "bar" as const,
+        label: category,
+        data: series[index],
+        backgroundColor: colors[index],
+        stack: "spending",
+      })),
+      // Combined limit of all budgets, scaled to each bucket
+      ...(budgets.length > 0
+        ? [
+            {
+              type: "line" as const,
+              label: "Budget",
+              data: getBudgetSeries(budgets, buckets, granularity),
+              borderColor: darkMode ? "#f87171" : "#dc2626",
+              borderDash: [6, 4],
+              pointRadius: 0,
+              fill: false,
+            },
+          ]
+        : []),
+      // Each line gets its own stack so the y axis doesn't add them up
+      ...(projection
+        ? [
+            {
+              type: "line" as const,
+              label: "Forecast",
+              data: projection.projected,
+              borderColor: projectionColor,
+              borderDash: [2, 3],
+              pointRadius: 0,
+              fill: false,
+              stack: "forecast",
+            },
+            {
+              type: "line" as const,
+              label: "Forecast low",
+              data: projection.low,
+              borderColor: "transparent",
+              pointRadius: 0,
+              fill: false,
+              stack: "forecastLow",
+            },
+            {
+              type: "line" as const,
+              label: "Forecast high",
+              data: projection.high,
+              borderColor: "transparent",
+              backgroundColor: darkMode
+                ? "rgba(165, 180, 252, 0.2)"
+                : "rgba(79, 70, 229, 0.15)",
+              pointRadius: 0,
+              // Shade the band down to the low line
+              fill: "-1",
+              stack: "forecastHigh",
+            },
+          ]
+        : []),
+    ],
+  };
+
+  return (
+    <div>
+      <div className="flex justify-end space-x-1 mb-2">
+        {granularities.map((option) => (
+          <button
+            key={option}
+            onClick={() => setGranularity(option)}
+            className={`px-3 py-1 rounded-md text-sm font-medium capitalize ${
+              granularity === option
+                ? "bg-indigo-600 text-white"
+                : darkMode
+                ? "bg-gray-700 text-gray-300"
+                : "bg-gray-100 text-gray-700"
+            }`}
+          >
+            {option}
+          </button>
+        ))}
+      </div>
+      <div className="h-64">
+        <Chart
+          type="bar"
+          data={data}
+          options={{
+            maintainAspectRatio: false,
+            scales: {
+              y: {
+                stacked: true,
+                beginAtZero: true,
+                ticks: {
+                  color: textColor,
+                },
+              },
+              x: {
+                stacked: true,
+                ticks: {
+                  color: textColor,
+                },
+              },
+            },
+            plugins: {
+              legend: {
+                labels: {
+                  color: textColor,
+                  // The band's edges are explained by the shading alone
+                  filter: (item) =>
+                    item.text !== "Forecast low" &&
+                    item.text !== "Forecast high",
+                },
+              },
+            },
+          }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default SpendingChart;
@@ -0,0 +1,137 @@
+import { AlertTriangle, TrendingUp } from "lucide-react";
+import { formatMoney } from "../utils/currency";
+import type { ForecastLine, SpendingForecast } from "../utils/forecast";
+
+interface SpendingForecastCardProps {
+  darkMode: boolean;
+  forecast: SpendingForecast;
+  // Home currency; the forecast is in it
+  currency: string;
+}
+
+// Whether the month is on course to stay within a limit. Only the likely
+// range counts, so a high end past the limit is a warning, not an overrun.
+const getOutlook = (line: ForecastLine, limit: number | null) => {
+  if (limit === null) return null;
+  if (line.projected > limit) return "over";
+  if (line.high > limit) return "warning";
+  return "ok";
+};
+
+const outlookColors = {
+  ok: "text-green-500",
+  warning: "text-yellow-500",
+  over: "text-red-500",
+};
+
+const SpendingForecastCard = ({
+  darkMode,
+  forecast,
+  currency,
+}: SpendingForecastCardProps) => {
+  const mutedClassName = darkMode ? "text-gray-400" : "text-gray-500";
+  const { total } = forecast;
+  const totalOutlook = getOutlook(total, total.limit);
+  const monthName = forecast.start.toLocaleDateString(undefined, {
+    month: "long",
+  });
+
+  const range = (line: ForecastLine) =>
+    `${formatMoney(line.low, currency)} – ${formatMoney(line.high, currency)}`;
+
+  return (
+    <div
+      className={`${
+        darkMode ? "bg-gray-800" : "bg-white"
+      } p-6 rounded-lg shadow mb-8`}
+    >
+      <h3
+        className={`text-lg font-medium flex items-center ${
+          darkMode ? "text-white" : "text-gray-900"
+        } mb-4`}
+      >
+        <TrendingUp className="h-5 w-5 mr-2 text-indigo-500" />
+        Month-End Forecast
+      </h3>
+
+      <div className="flex flex-wrap items-baseline gap-x-4 mb-1">
+        <span
+          className={`text-2xl font-semibold ${
+            totalOutlook
+              ? outlookColors[totalOutlook]
+              : darkMode
+              ? "text-white"
+              : "text-gray-900"
+          }`}
+        >
+          {formatMoney(total.projected, currency)}
+        </span>
+        <span className={`text-sm ${mutedClassName}`}>
+          likely {range(total)} by the end of {monthName}
+        </span>
+      </div>
+      <p className={`text-sm mb-6 ${mutedClassName}`}>
+        {formatMoney(total.spent, currency)} spent so far
+        {total.recurring > 0 &&
+          `, ${formatMoney(total.recurring, currency)} in recurring items due`}
+        {total.limit !== null &&
+          ` · budgets allow ${formatMoney(total.limit, currency)}`}
+      </p>
+
+      {forecast.categories.length === 0 ? (
+        <p className={`text-sm ${mutedClassName}`}>
+          No spending to forecast yet this month.
+        </p>
+      ) : (
+        <ul
+          className={`divide-y ${
+            darkMode ? "divide-gray-700" : "divide-gray-200"
+          }`}
+        >
+          {forecast.categories.map((line) => {
+            const outlook = getOutlook(line, line.limit);
+            return (
+              <li
+                key={line.category}
+                className="py-2 flex items-center justify-between text-sm"
+              >
+                <span
+                  className={`font-medium flex items-center ${
+                    darkMode ? "text-white" : "text-gray-900"
+                  }`}
+                >
+                  {line.category}
+                  {outlook && outlook !== "ok" && (
+                    <AlertTriangle
+                      className={`h-4 w-4 ml-2 ${outlookColors[outlook]}`}
+                    />
+                  )}
+                </span>
+                <span className={`text-right ${mutedClassName}`}>
+                  <span
+                    className={
+                      outlook === "over"
+                        ? "text-red-500"
+                        : darkMode
+                        ? "text-white"
+                        : "text-gray-900"
+                    }
+                  >
+                    {formatMoney(line.projected, currency)}
+                  </span>
+                  {line.limit !== null &&
+                    ` / ${formatMoney(line.limit, currency)}`}
+                  <span className="block text-xs">
+                    {formatMoney(line.spent, currency)} spent · {range(line)}
+                  </span>
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SpendingForecastCard;
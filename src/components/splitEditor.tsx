@@ -0,0 +1,149 @@
+import { Plus, Trash2 } from "lucide-react";
+import { formatMoney } from "../utils/currency";
+
+// Amounts are kept as typed, like the rest of the entry form
+export type SplitLine = {
+  category: string;
+  amount: string;
+};
+
+interface SplitEditorProps {
+  darkMode: boolean;
+  // Categories that can be picked for new lines
+  categories: string[];
+  lines: SplitLine[];
+  // Amount of the whole transaction, which the lines must add up to
+  total: number;
+  currency: string;
+  onChange: (lines: SplitLine[]) => void;
+  onCancel: () => void;
+}
+
+const SplitEditor = ({
+  darkMode,
+  categories,
+  lines,
+  total,
+  currency,
+  onChange,
+  onCancel,
+}: SplitEditorProps) => {
+  const inputClassName = `block w-full border ${
+    darkMode ? "bg-gray-700 border-gray-600 text-white" : "border-gray-300"
+  } rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm`;
+
+  const mutedClassName = darkMode ? "text-gray-400" : "text-gray-500";
+
+  // An archived category stays selectable on lines already filed under it
+  const options = Array.from(
+    new Set([
+      ...categories,
+      ...lines.map((line) => line.category).filter(Boolean),
+    ])
+  );
+
+  const remaining =
+    total -
+    lines.reduce((sum, line) => sum + (parseFloat(line.amount) || 0), 0);
+  const balanced = Math.round(remaining * 100) === 0;
+
+  const updateLine = (index: number, changes: Partial<SplitLine>) => {
+    onChange(
+      lines.map((line, i) => (i === index ? { ...line, ...changes } : line))
+    );
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <span
+          className={`block text-sm font-medium ${
+            darkMode ? "text-gray-200" : "text-gray-700"
+          }`}
+        >
+          Split Across Categories
+        </span>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="text-sm text-indigo-500 hover:text-indigo-600"
+        >
+          Don't split
+        </button>
+      </div>
+      <div className="mt-1 space-y-2">
+        {lines.map((line, index) => (
+          <div key={index} className="flex space-x-2">
+            <select
+              aria-label={`Category of line ${index + 1}`}
+              required
+              value={line.category}
+              onChange={(e) => updateLine(index, { category: e.target.value })}
+              className={inputClassName}
+            >
+              <option value="">Select a category</option>
+              {options.map((category) => (
+                <option key={category} value={category}>
+                  {category}
+                </option>
+              ))}
+            </select>
+            <input
+              type="number"
+              aria-label={`Amount of line ${index + 1}`}
+              step="0.01"
+              min="0.01"
+              required
+              value={line.amount}
+              onChange={(e) => updateLine(index, { amount: e.target.value })}
+              className={`${inputClassName} w-32`}
+            />
+            <button
+              type="button"
+              onClick={() => onChange(lines.filter((_, i) => i !== index))}
+              disabled={lines.length <= 2}
+              className={`p-2 rounded-lg disabled:opacity-50 ${
+                darkMode
+                  ? "text-red-400 hover:bg-gray-700"
+                  : "text-red-500 hover:bg-gray-100"
+              }`}
+              title="Remove line"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+      <div className="mt-2 flex items-center justify-between">
+        <button
+          type="button"
+          onClick={() =>
+            onChange([
+              ...lines,
+              {
+                category: "",
+                // Start the new line with whatever is left to assign
+                amount: remaining > 0 ? remaining.toFixed(2) : "",
+              },
+            ])
+          }
+          className="inline-flex items-center text-sm text-indigo-500 hover:text-indigo-600"
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add line
+        </button>
+        <span
+          className={`text-sm ${balanced ? mutedClassName : "text-red-500"}`}
+        >
+          {balanced
+            ? "Lines add up to the total"
+            : `${formatMoney(Math.abs(remaining), currency)} ${
+                remaining > 0 ? "left to assign" : "over the total"
+              }`}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default SplitEditor;
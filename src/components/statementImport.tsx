@@ -0,0 +1,283 @@
+import React, { useState } from "react";
+import { FileText, X } from "lucide-react";
+import type { Account, Expense } from "../types";
+import { getFallbackCategory } from "../utils/categories";
+import { getDuplicateKey } from "../utils/csv";
+import { formatMoney } from "../utils/currency";
+import { parseStatement } from "../utils/statement";
+
+interface StatementImportProps {
+  darkMode: boolean;
+  categories: string[];
+  incomeCategories: string[];
+  expenses: Expense[];
+  // Accounts the statement can be imported into
+  accounts: Account[];
+  // Used when the file does not name a currency
+  homeCurrency: string;
+  onImport: (expenses: Expense[]) => void;
+  onClose: () => void;
+}
+
+type ReviewRow = {
+  expense: Expense;
+  include: boolean;
+  isTransfer: boolean;
+  duplicate: boolean;
+};
+
+const StatementImport = ({
+  darkMode,
+  categories,
+  incomeCategories,
+  expenses,
+  accounts,
+  homeCurrency,
+  onImport,
+  onClose,
+}: StatementImportProps) => {
+  const [fileName, setFileName] = useState("");
+  const [rows, setRows] = useState<ReviewRow[]>([]);
+  const [error, setError] = useState("");
+  const [accountId, setAccountId] = useState(accounts[0]?.id || "");
+
+  const mutedClassName = darkMode ? "text-gray-400" : "text-gray-500";
+
+  const selectClassName = `block w-full border ${
+    darkMode ? "bg-gray-700 border-gray-600 text-white" : "border-gray-300"
+  } rounded-md shadow-sm py-1 px-2 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm`;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const transactions = parseStatement(file.name, await file.text());
+    const existingKeys = new Set(expenses.map(getDuplicateKey));
+
+    setFileName(file.name);
+    setError(
+      transactions.length === 0 ? "No transactions found in this file" : ""
+    );
+    setRows(
+      transactions.map((transaction, index) => {
+        // Withdrawals become expenses and deposits become income
+        const kind = transaction.amount < 0 ? "expense" : "income";
+        const options = kind === "expense" ? categories : incomeCategories;
+        const category =
+          options.find(
+            (c) => c.toLowerCase() === transaction.category.toLowerCase()
+          ) ||
+          (kind === "expense"
+            ? getFallbackCategory(categories, "Others")
+            : getFallbackCategory(incomeCategories, "Other Income"));
+        const expense: Expense = {
+          id: `${Date.now()}-${index}`,
+          kind,
+          amount: Math.abs(transaction.amount),
+          currency: transaction.currency || homeCurrency,
+          category,
+          description: transaction.payee || transaction.memo,
+          date: transaction.date.toISOString(),
+          accountId,
+        };
+        const duplicate = existingKeys.has(getDuplicateKey(expense));
+
+        return {
+          expense,
+          include: !transaction.isTransfer && !duplicate,
+          isTransfer: transaction.isTransfer,
+          duplicate,
+        };
+      })
+    );
+  };
+
+  const updateRow = (index: number, changes: Partial<ReviewRow>) => {
+    setRows(rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const included = rows.filter((row) => row.include);
+
+  return (
+    <div className="fixed z-10 inset-0 overflow-y-auto">
+      <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity"></div>
+        <div
+          className={`inline-block align-bottom ${
+            darkMode ? "bg-gray-800" : "bg-white"
+          } rounded-lg px-4 pt-5 pb-4 text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-3xl sm:w-full sm:p-6`}
+        >
+          <div className="absolute top-0 right-0 pt-4 pr-4">
+            <button
+              onClick={onClose}
+              className={`${
+                darkMode ? "bg-gray-800" : "bg-white"
+              } rounded-md text-gray-400 hover:text-gray-500 focus:outline-none`}
+            >
+              <X className="h-6 w-6" />
+            </button>
+          </div>
+
+          <h3
+            className={`text-lg font-medium mb-4 ${
+              darkMode ? "text-white" : "text-gray-900"
+            }`}
+          >
+            Import Bank Statement
+          </h3>
+
+          <label
+            className={`flex items-center justify-center px-4 py-6 border-2 border-dashed rounded-lg cursor-pointer ${
+              darkMode
+                ? "border-gray-600 text-gray-300"
+                : "border-gray-300 text-gray-600"
+            }`}
+          >
+            <FileText className="h-5 w-5 mr-2" />
+            {fileName || "Choose an OFX, QFX or QIF file"}
+            <input
+              type="file"
+              accept=".ofx,.qfx,.qif"
+              className="hidden"
+              onChange={handleFile}
+            />
+          </label>
+
+          <div className="mt-4">
+            <label
+              htmlFor="statement-account"
+              className={`block text-sm font-medium ${
+                darkMode ? "text-gray-200" : "text-gray-700"
+              }`}
+            >
+              Import into account
+            </label>
+            <select
+              id="statement-account"
+              value={accountId}
+              onChange={(e) => setAccountId(e.target.value)}
+              className={`mt-1 ${selectClassName}`}
+            >
+              {accounts.map((account) => (
+                <option key={account.id} value={account.id}>
+                  {account.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {error && <p className="mt-4 text-sm text-red-500">{error}</p>}
+
+          {rows.length > 0 && (
+            <div className="mt-6">
+              <div className="overflow-x-auto max-h-96">
+                <table className="min-w-full text-sm">
+                  <thead className={mutedClassName}>
+                    <tr>
+                      <th className="px-2 py-1"></th>
+                      <th className="text-left px-2 py-1">Date</th>
+                      <th className="text-left px-2 py-1">Payee</th>
+                      <th className="text-right px-2 py-1">Amount</th>
+                      <th className="text-left px-2 py-1">Category</th>
+                    </tr>
+                  </thead>
+                  <tbody
+                    className={darkMode ? "text-gray-200" : "text-gray-900"}
+                  >
+                    {rows.map((row, index) => (
+                      <tr
+                        key={row.expense.id}
+                        className={row.include ? "" : "opacity-50"}
+                      >
+                        <td className="px-2 py-1">
+                          <input
+                            type="checkbox"
+                            aria-label="Include transaction"
+                            checked={row.include}
+                            onChange={(e) =>
+                              updateRow(index, { include: e.target.checked })
+                            }
+                          />
+                        </td>
+                        <td className="px-2 py-1 whitespace-nowrap">
+                          {new Date(row.expense.date).toLocaleDateString()}
+                        </td>
+                        <td className="px-2 py-1">
+                          {row.expense.description}
+                          {row.isTransfer && (
+                            <span className="ml-2 text-xs text-blue-500">
+                              Transfer
+                            </span>
+                          )}
+                          {row.duplicate && (
+                            <span className="ml-2 text-xs text-yellow-500">
+                              Duplicate
+                            </span>
+                          )}
+                        </td>
+                        <td
+                          className={`px-2 py-1 text-right ${
+                            row.expense.kind === "income"
+                              ? "text-green-500"
+                              : ""
+                          }`}
+                        >
+                          {row.expense.kind === "income" ? "+" : "-"}
+                          {formatMoney(
+                            row.expense.amount,
+                            row.expense.currency
+                          )}
+                        </td>
+                        <td className="px-2 py-1">
+                          <select
+                            aria-label="Category"
+                            value={row.expense.category}
+                            onChange={(e) =>
+                              updateRow(index, {
+                                expense: {
+                                  ...row.expense,
+                                  category: e.target.value,
+                                },
+                              })
+                            }
+                            className={selectClassName}
+                          >
+                            {(row.expense.kind === "income"
+                              ? incomeCategories
+                              : categories
+                            ).map((category) => (
+                              <option key={category} value={category}>
+                                {category}
+                              </option>
+                            ))}
+                          </select>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <p className={`mt-2 text-sm ${mutedClassName}`}>
+                {rows.length} transactions, {included.length} selected
+              </p>
+            </div>
+          )}
+
+          <div className="mt-5 sm:mt-6">
+            <button
+              onClick={() =>
+                onImport(included.map((row) => ({ ...row.expense, accountId })))
+              }
+              disabled={included.length === 0}
+              className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-indigo-600 text-base font-medium text-white hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 sm:text-sm"
+            >
+              Import {included.length} Transactions
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StatementImport;
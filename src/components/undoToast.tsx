@@ -0,0 +1,46 @@
+import { motion } from "framer-motion";
+import { Undo2, X } from "lucide-react";
+
+interface UndoToastProps {
+  darkMode: boolean;
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+}
+
+const UndoToast = ({
+  darkMode,
+  message,
+  onUndo,
+  onDismiss,
+}: UndoToastProps) => {
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className={`fixed bottom-6 left-1/2 transform -translate-x-1/2 z-20 px-4 py-3 rounded-lg shadow-lg flex items-center space-x-4 ${
+        darkMode ? "bg-gray-700 text-white" : "bg-gray-900 text-white"
+      }`}
+    >
+      <span className="text-sm">{message}</span>
+      <button
+        onClick={onUndo}
+        className={`inline-flex items-center text-sm font-medium ${
+          darkMode ? "text-indigo-300" : "text-indigo-400"
+        } hover:underline`}
+      >
+        <Undo2 className="h-4 w-4 mr-1" />
+        Undo
+      </button>
+      <button
+        onClick={onDismiss}
+        className="text-gray-400 hover:text-gray-200"
+        title="Dismiss"
+      >
+        <X className="h-4 w-4" />
+      </button>
+    </motion.div>
+  );
+};
+
+export default UndoToast;
@@ -0,0 +1,221 @@
+import React, { useState } from "react";
+import { Lock, ShieldCheck, X } from "lucide-react";
+import { AUTO_LOCK_OPTIONS } from "../utils/vault";
+
+interface VaultSettingsProps {
+  darkMode: boolean;
+  enabled: boolean;
+  autoLockMinutes: number;
+  // Sets a new passphrase, or removes the lock when `next` is null.
+  // Resolves to false when `current` is wrong.
+  onSetPassphrase: (current: string, next: string | null) => Promise<boolean>;
+  onAutoLockChange: (minutes: number) => void;
+  onLockNow: () => void;
+  onClose: () => void;
+}
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const emptyForm = { current: "", next: "", confirm: "" };
+
+const VaultSettings = ({
+  darkMode,
+  enabled,
+  autoLockMinutes,
+  onSetPassphrase,
+  onAutoLockChange,
+  onLockNow,
+  onClose,
+}: VaultSettingsProps) => {
+  const [form, setForm] = useState(emptyForm);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+  const [message, setMessage] = useState("");
+
+  const inputClassName = `mt-1 block w-full border ${
+    darkMode ? "bg-gray-700 border-gray-600 text-white" : "border-gray-300"
+  } rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm`;
+
+  const labelClassName = `block text-sm font-medium ${
+    darkMode ? "text-gray-200" : "text-gray-700"
+  }`;
+
+  const mutedClassName = darkMode ? "text-gray-400" : "text-gray-500";
+
+  const apply = async (next: string | null, done: string) => {
+    setBusy(true);
+    setError("");
+    setMessage("");
+    let ok;
+    try {
+      ok = await onSetPassphrase(form.current, next);
+    } catch {
+      setError("Could not update the lock");
+      return;
+    } finally {
+      setBusy(false);
+    }
+    if (!ok) {
+      setError("Current passphrase is incorrect");
+      return;
+    }
+    setForm(emptyForm);
+    setMessage(done);
+  };
+
+  const savePassphrase = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (form.next.length < MIN_PASSPHRASE_LENGTH) {
+      setError(
+        `Use a passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters`
+      );
+      return;
+    }
+    if (form.next !== form.confirm) {
+      setError("The passphrases don't match");
+      return;
+    }
+    apply(
+      form.next,
+      enabled ? "Passphrase changed" : "Lock turned on. Your data is encrypted."
+    );
+  };
+
+  return (
+    <div
+      className={`${
+        darkMode ? "bg-gray-800" : "bg-white"
+      } p-6 rounded-lg shadow`}
+    >
+      <div className="flex justify-between items-center mb-4">
+        <h2
+          className={`text-xl font-bold ${
+            darkMode ? "text-white" : "text-gray-900"
+          }`}
+        >
+          Privacy & Lock
+        </h2>
+        <button
+          onClick={onClose}
+          className={`p-2 rounded-lg ${
+            darkMode ? "bg-gray-700" : "bg-gray-100"
+          }`}
+        >
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+        <div className="space-y-4">
+          <p className={`flex items-start text-sm ${mutedClassName}`}>
+            <ShieldCheck
+              className={`h-5 w-5 mr-2 flex-shrink-0 ${
+                enabled ? "text-green-500" : mutedClassName
+              }`}
+            />
+            {enabled
+              ? "Your data is encrypted on this device and needs the passphrase to open."
+              : "Set a passphrase to encrypt your data on this device. If you forget it, the data can't be recovered."}
+          </p>
+
+          {enabled && (
+            <>
+              <div>
+                <label htmlFor="auto-lock" className={labelClassName}>
+                  Lock after inactivity
+                </label>
+                <select
+                  id="auto-lock"
+                  value={autoLockMinutes}
+                  onChange={(e) => onAutoLockChange(Number(e.target.value))}
+                  className={inputClassName}
+                >
+                  {AUTO_LOCK_OPTIONS.map((minutes) => (
+                    <option key={minutes} value={minutes}>
+                      {minutes} minute{minutes === 1 ? "" : "s"}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <button
+                onClick={onLockNow}
+                className="inline-flex items-center px-4 py-2 rounded-md text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700"
+              >
+                <Lock className="h-4 w-4 mr-2" />
+                Lock Now
+              </button>
+            </>
+          )}
+        </div>
+
+        <form onSubmit={savePassphrase} className="space-y-4">
+          {enabled && (
+            <div>
+              <label htmlFor="current-passphrase" className={labelClassName}>
+                Current Passphrase
+              </label>
+              <input
+                type="password"
+                id="current-passphrase"
+                value={form.current}
+                onChange={(e) => setForm({ ...form, current: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+          )}
+          <div>
+            <label htmlFor="new-passphrase" className={labelClassName}>
+              {enabled ? "New Passphrase" : "Passphrase"}
+            </label>
+            <input
+              type="password"
+              id="new-passphrase"
+              value={form.next}
+              onChange={(e) => setForm({ ...form, next: e.target.value })}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label htmlFor="confirm-passphrase" className={labelClassName}>
+              Confirm Passphrase
+            </label>
+            <input
+              type="password"
+              id="confirm-passphrase"
+              value={form.confirm}
+              onChange={(e) => setForm({ ...form, confirm: e.target.value })}
+              className={inputClassName}
+            />
+          </div>
+          {error && <p className="text-sm text-red-500">{error}</p>}
+          {message && <p className="text-sm text-green-500">{message}</p>}
+          <div className="flex space-x-2">
+            <button
+              type="submit"
+              disabled={busy}
+              className="inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-indigo-600 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {busy
+                ? "Encrypting..."
+                : enabled
+                ? "Change Passphrase"
+                : "Turn On Lock"}
+            </button>
+            {enabled && (
+              <button
+                type="button"
+                disabled={busy || !form.current}
+                onClick={() => apply(null, "Lock turned off")}
+                className="px-4 py-2 rounded-md text-sm font-medium text-white bg-red-600 hover:bg-red-700 disabled:opacity-50"
+              >
+                Turn Off Lock
+              </button>
+            )}
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default VaultSettings;
@@ -0,0 +1,89 @@
+import React, { useState } from "react";
+import { Lock } from "lucide-react";
+
+interface VaultUnlockProps {
+  darkMode: boolean;
+  // Resolves to false when the passphrase is wrong
+  onUnlock: (passphrase: string) => Promise<boolean>;
+}
+
+const VaultUnlock = ({ darkMode, onUnlock }: VaultUnlockProps) => {
+  const [passphrase, setPassphrase] = useState("");
+  const [unlocking, setUnlocking] = useState(false);
+  const [error, setError] = useState("");
+
+  const unlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setUnlocking(true);
+    const unlocked = await onUnlock(passphrase);
+    setUnlocking(false);
+    if (!unlocked) {
+      setError("Incorrect passphrase");
+      setPassphrase("");
+    }
+  };
+
+  return (
+    <div
+      className={`min-h-screen flex items-center justify-center px-4 ${
+        darkMode ? "bg-gray-900" : "bg-gradient-to-br from-blue-50 to-indigo-50"
+      }`}
+    >
+      <form
+        onSubmit={unlock}
+        className={`w-full max-w-sm p-6 rounded-lg shadow-lg ${
+          darkMode ? "bg-gray-800" : "bg-white"
+        }`}
+      >
+        <div className="flex flex-col items-center mb-6">
+          <Lock
+            className={`h-10 w-10 mb-3 ${
+              darkMode ? "text-indigo-400" : "text-indigo-600"
+            }`}
+          />
+          <h1
+            className={`text-xl font-bold ${
+              darkMode ? "text-white" : "text-gray-900"
+            }`}
+          >
+            Finance Tracker is locked
+          </h1>
+          <p
+            className={`mt-1 text-sm ${
+              darkMode ? "text-gray-400" : "text-gray-500"
+            }`}
+          >
+            Enter your passphrase to decrypt your data.
+          </p>
+        </div>
+        <label htmlFor="unlock-passphrase" className="sr-only">
+          Passphrase
+        </label>
+        <input
+          type="password"
+          id="unlock-passphrase"
+          autoFocus
+          required
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder="Passphrase"
+          className={`block w-full border ${
+            darkMode
+              ? "bg-gray-700 border-gray-600 text-white"
+              : "border-gray-300"
+          } rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm`}
+        />
+        {error && <p className="mt-2 text-sm text-red-500">{error}</p>}
+        <button
+          type="submit"
+          disabled={unlocking}
+          className="mt-4 w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-indigo-600 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-50"
+        >
+          {unlocking ? "Unlocking..." : "Unlock"}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default VaultUnlock;
@@ -5,6 +5,8 @@ import { DollarSign, TrendingUp, AlertCircle, Award } from "lucide-react";
 
 interface CoinCollectorGameProps {
   darkMode: boolean;
+  // Best score so far; saved by the app along with the rest of its data
+  highScore?: number;
   onFinish?: (score: number) => void;
 }
 
@@ -33,6 +35,7 @@ const BAD_DECISIONS = [
 
 const CoinCollectorGame: React.FC<CoinCollectorGameProps> = ({
   darkMode,
+  highScore = 0,
   onFinish,
 }) => {
   // Game state
@@ -44,10 +47,6 @@ const CoinCollectorGame: React.FC<CoinCollectorGameProps> = ({
   const [showTip, setShowTip] = useState(false);
   const [obstacleHit, setObstacleHit] = useState("");
   const [showObstacleMessage, setShowObstacleMessage] = useState(false);
-  const [highScore, setHighScore] = useState(() => {
-    const saved = localStorage.getItem("financeGameHighScore");
-    return saved ? parseInt(saved) : 0;
-  });
 
   // Three.js references
   const mountRef = useRef<HTMLDivElement>(null);
@@ -142,11 +141,6 @@ const CoinCollectorGame: React.FC<CoinCollectorGameProps> = ({
   const endGame = () => {
     setGameEnded(true);
 
-    if (score > highScore) {
-      setHighScore(score);
-      localStorage.setItem("financeGameHighScore", score.toString());
-    }
-
     if (onFinish) {
       onFinish(score);
     }
@@ -0,0 +1,170 @@
+// Money going out or coming in. Amounts are always stored as positive
+// numbers; the kind gives the direction.
+export type TransactionKind = "expense" | "income";
+
+// Transfers move money between two of the user's own accounts, so they are
+// neither spending nor income and have no category
+export type EntryKind = TransactionKind | "transfer";
+
+// Part of a transaction filed under its own category
+export type Split = {
+  category: string;
+  amount: number;
+};
+
+// A receipt or other file attached to an entry. Only this description is
+// kept with the entry; the file itself is stored separately under `id`.
+export type Attachment = {
+  id: string;
+  name: string;
+  // MIME type, e.g. "image/jpeg" or "application/pdf"
+  type: string;
+  // In bytes
+  size: number;
+};
+
+export type Expense = {
+  id: string;
+  kind: EntryKind;
+  amount: number;
+  // ISO 4217 code of the amount
+  currency: string;
+  category: string;
+  description: string;
+  date: string;
+  // Account the money leaves, or arrives in for income
+  accountId: string;
+  // Receiving account of a transfer
+  toAccountId?: string;
+  // Template this entry was generated from, if it is recurring
+  recurringId?: string;
+  // Lines of a transaction split across categories. Their amounts add up
+  // to `amount`, and `category` holds the category of the largest line.
+  splits?: Split[];
+  // Free-form labels, e.g. "vacation" or "work"
+  tags?: string[];
+  attachments?: Attachment[];
+};
+
+export type BudgetPeriod = "weekly" | "monthly";
+
+// What happens to an envelope's unspent money at the end of a month
+export type EnvelopeRollover = "rollover" | "sweep";
+
+export type Budget = {
+  category: string;
+  limit: number;
+  period: BudgetPeriod;
+  // In envelope mode; budgets saved before it existed roll over
+  rollover?: EnvelopeRollover;
+};
+
+// Money moved from one envelope to another, e.g. to cover overspending.
+// Envelopes are named by their category.
+export type EnvelopeMove = {
+  id: string;
+  from: string;
+  to: string;
+  // In the home currency
+  amount: number;
+  date: string;
+};
+
+export type RecurrenceFrequency = "weekly" | "monthly" | "yearly" | "custom";
+
+// A repeating expense or income, such as rent or a subscription
+export type RecurringTemplate = {
+  id: string;
+  kind: TransactionKind;
+  amount: number;
+  currency: string;
+  category: string;
+  description: string;
+  accountId: string;
+  frequency: RecurrenceFrequency;
+  // Days between occurrences, used by the "custom" frequency
+  interval: number;
+  startDate: string;
+  endDate: string | null;
+  // Date of the latest occurrence already added to expenses
+  lastGenerated: string | null;
+};
+
+// A user-managed category. Expenses, budgets and recurring templates refer
+// to categories by name.
+export type Category = {
+  name: string;
+  kind: TransactionKind;
+  color: string;
+  // Key into CATEGORY_ICONS
+  icon: string;
+  archived: boolean;
+};
+
+// Units of each currency per one unit of `base`
+export type ExchangeRates = {
+  base: string;
+  rates: Record<string, number>;
+};
+
+export type AccountType = "cash" | "checking" | "savings" | "credit";
+
+// Somewhere money is kept, like a wallet, a bank account or a credit card
+export type Account = {
+  id: string;
+  name: string;
+  type: AccountType;
+  // Currency the account is kept in; entries in other currencies are
+  // converted when working out its balance
+  currency: string;
+  // Balance before the first recorded entry. Negative when money is owed,
+  // as on a credit card.
+  openingBalance: number;
+  // Credit cards only
+  creditLimit: number | null;
+  archived: boolean;
+};
+
+export type SortOrder = "newest" | "oldest" | "largest" | "smallest";
+
+// Filters on the transaction list, kept as typed so they can be saved as
+// presets. Empty fields don't filter.
+export type ExpenseFilter = {
+  // Search text, see parseQuery in utils/search
+  query: string;
+  category: string;
+  tag: string;
+  minAmount: string;
+  maxAmount: string;
+};
+
+export type FilterPreset = {
+  name: string;
+  filter: ExpenseFilter;
+  sort: SortOrder;
+};
+
+// Money put toward a savings goal by hand
+export type GoalContribution = {
+  id: string;
+  // In the goal's currency
+  amount: number;
+  date: string;
+};
+
+export type SavingsGoal = {
+  id: string;
+  name: string;
+  target: number;
+  currency: string;
+  deadline: string | null;
+  // Account the savings are kept in. Transfers into it count toward the
+  // goal.
+  accountId: string | null;
+  // Share of every income entry set aside for the goal, from 0 to 100
+  autoAllocatePercent: number;
+  contributions: GoalContribution[];
+  // Only entries from this date on count toward the goal
+  createdAt: string;
+  archived: boolean;
+};
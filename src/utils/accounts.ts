@@ -0,0 +1,133 @@
+import {
+  CreditCard,
+  Landmark,
+  PiggyBank,
+  Wallet,
+  type LucideIcon,
+} from "lucide-react";
+import type { Account, AccountType, ExchangeRates, Expense } from "../types";
+import type { BudgetStatus } from "./budget";
+import { convert } from "./currency";
+import { getNextBucket, type Granularity } from "./timeSeries";
+
+// Entries recorded before accounts existed belong to this one
+export const DEFAULT_ACCOUNT_ID = "default";
+
+// Credit scores tend to suffer once more than this share of the limit is
+// in use
+export const UTILIZATION_WARNING_THRESHOLD = 0.3;
+
+export const ACCOUNT_TYPE_LABELS: Record<AccountType, string> = {
+  cash: "Cash",
+  checking: "Checking",
+  savings: "Savings",
+  credit: "Credit Card",
+};
+
+export const ACCOUNT_ICONS: Record<AccountType, LucideIcon> = {
+  cash: Wallet,
+  checking: Landmark,
+  savings: PiggyBank,
+  credit: CreditCard,
+};
+
+export const createDefaultAccount = (currency: string): Account => ({
+  id: DEFAULT_ACCOUNT_ID,
+  name: "Cash",
+  type: "cash",
+  currency,
+  openingBalance: 0,
+  creditLimit: null,
+  archived: false,
+});
+
+export const getActiveAccounts = (accounts: Account[]) =>
+  accounts.filter((account) => !account.archived);
+
+export const findAccount = (accounts: Account[], id: string) =>
+  accounts.find((account) => account.id === id);
+
+// Whether any entry, recurring template or savings goal still refers to the
+// account
+export const isAccountUsed = (
+  id: string,
+  expenses: Expense[],
+  others: { accountId: string | null }[]
+) =>
+  expenses.some(
+    (expense) => expense.accountId === id || expense.toAccountId === id
+  ) || others.some((other) => other.accountId === id);
+
+// How much an entry adds to an account's balance, in the account's
+// currency. Negative when money leaves the account.
+export const getBalanceChange = (
+  expense: Expense,
+  account: Account,
+  rates: ExchangeRates
+) => {
+  const amount = convert(
+    expense.amount,
+    expense.currency,
+    account.currency,
+    rates
+  );
+  const into =
+    expense.kind === "transfer"
+      ? expense.toAccountId === account.id
+      : expense.kind === "income" && expense.accountId === account.id;
+  const out = expense.kind !== "income" && expense.accountId === account.id;
+
+  return (into ? amount : 0) - (out ? amount : 0);
+};
+
+export const getAccountBalance = (
+  account: Account,
+  expenses: Expense[],
+  rates: ExchangeRates
+) =>
+  expenses.reduce(
+    (balance, expense) => balance + getBalanceChange(expense, account, rates),
+    account.openingBalance
+  );
+
+// Balance of each account at the end of each bucket
+export const getBalanceSeries = (
+  accounts: Account[],
+  expenses: Expense[],
+  rates: ExchangeRates,
+  buckets: Date[],
+  granularity: Granularity
+) => {
+  const sorted = [...expenses].sort(
+    (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
+  );
+
+  return accounts.map((account) => {
+    let balance = account.openingBalance;
+    let next = 0;
+
+    return buckets.map((bucket) => {
+      const end = getNextBucket(bucket, granularity).getTime();
+      while (
+        next < sorted.length &&
+        new Date(sorted[next].date).getTime() < end
+      ) {
+        balance += getBalanceChange(sorted[next], account, rates);
+        next++;
+      }
+      return balance;
+    });
+  });
+};
+
+// Share of a credit card's limit in use, or null when there is no limit
+export const getCreditUtilization = (account: Account, balance: number) =>
+  account.type === "credit" && account.creditLimit
+    ? Math.max(0, -balance) / account.creditLimit
+    : null;
+
+export const getUtilizationStatus = (utilization: number): BudgetStatus => {
+  if (utilization > 1) return "over";
+  if (utilization >= UTILIZATION_WARNING_THRESHOLD) return "warning";
+  return "ok";
+};
@@ -0,0 +1,223 @@
+import type { Attachment, Expense } from "../types";
+import {
+  deleteAttachments,
+  openDatabase,
+  readAttachment,
+  readAttachmentIds,
+  writeAttachments,
+} from "./db";
+import { isVaultEnabled, seal, unseal, type Sealed } from "./vault";
+
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+// What the file picker offers, and the only files that are stored
+export const ATTACHMENT_TYPES = "image/*,application/pdf";
+
+// Anything else, e.g. HTML, could run scripts when it is shown
+const isAllowedType = (type: string) =>
+  ATTACHMENT_TYPES.split(",").some((pattern) =>
+    pattern.endsWith("/*")
+      ? type.startsWith(pattern.slice(0, -1))
+      : type === pattern
+  );
+
+// Files by attachment id, as data URLs, the way backups carry them
+export type AttachmentFiles = Record<string, string>;
+
+// Stored files no saved entry refers to yet, e.g. ones attached in an open
+// form, or whose entry's deletion can still be undone. Each is held until
+// the given time. They live in localStorage so cleanup in another tab leaves
+// them alone.
+const HOLDS_KEY = "financeTrackerAttachmentHolds";
+
+// Long enough for a form left open. Holds left behind by a closed tab run
+// out, and the files are cleaned up after that.
+const HOLD_TIME = 24 * 60 * 60 * 1000;
+
+// While the vault is on, files are stored sealed, as data URLs
+type SealedFile = { sealed: Sealed };
+
+const isSealedFile = (value: unknown): value is SealedFile =>
+  typeof value === "object" && value !== null && "sealed" in value;
+
+const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const dataUrlToBlob = async (dataUrl: string) => (await fetch(dataUrl)).blob();
+
+const toStored = async (blob: Blob) =>
+  isVaultEnabled() ? { sealed: await seal(await blobToDataUrl(blob)) } : blob;
+
+const fromStored = async (stored: unknown) => {
+  if (stored instanceof Blob) return stored;
+  if (isSealedFile(stored)) return dataUrlToBlob(await unseal(stored.sealed));
+  return null;
+};
+
+const readBlobs = async (db: IDBDatabase, ids: string[]) => {
+  const blobs = await Promise.all(
+    ids.map(async (id) => [id, await fromStored(await readAttachment(db, id))])
+  );
+  return blobs.filter((entry): entry is [string, Blob] => entry[1] !== null);
+};
+
+const writeBlobs = async (db: IDBDatabase, blobs: [string, Blob][]) =>
+  writeAttachments(
+    db,
+    await Promise.all(
+      blobs.map(
+        async ([id, blob]): Promise<[string, unknown]> => [
+          id,
+          await toStored(blob),
+        ]
+      )
+    )
+  );
+
+export const isImageAttachment = (attachment: Attachment) =>
+  attachment.type.startsWith("image/");
+
+export const getAttachmentIds = (expenses: Expense[]) =>
+  expenses.flatMap((expense) =>
+    (expense.attachments || []).map((attachment) => attachment.id)
+  );
+
+const readHolds = (): Record<string, number> => {
+  try {
+    const holds = JSON.parse(localStorage.getItem(HOLDS_KEY) || "{}");
+    return typeof holds === "object" && holds !== null ? holds : {};
+  } catch {
+    return {};
+  }
+};
+
+// Expired holds are dropped on every write
+const writeHolds = (holds: Record<string, number>) => {
+  const now = Date.now();
+  const live = Object.entries(holds).filter(([, until]) => until > now);
+  if (live.length > 0) {
+    localStorage.setItem(HOLDS_KEY, JSON.stringify(Object.fromEntries(live)));
+  } else {
+    localStorage.removeItem(HOLDS_KEY);
+  }
+};
+
+// Keep files from being pruned while they aren't on a saved entry
+export const holdAttachments = (ids: string[]) => {
+  if (ids.length === 0) return;
+  const holds = readHolds();
+  ids.forEach((id) => (holds[id] = Date.now() + HOLD_TIME));
+  writeHolds(holds);
+};
+
+// Once the files are saved on an entry, or deleted
+export const releaseAttachments = (ids: string[]) => {
+  if (ids.length === 0) return;
+  const holds = readHolds();
+  ids.forEach((id) => delete holds[id]);
+  writeHolds(holds);
+};
+
+// Store a file picked by the user, returning its description for the entry.
+// Throws with a readable message when the file can't be kept.
+export const addAttachment = async (file: File): Promise<Attachment> => {
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    throw new Error(`${file.name} is larger than 10 MB`);
+  }
+  if (!isAllowedType(file.type)) {
+    throw new Error(`${file.name} isn't an image or a PDF`);
+  }
+  const db = await openDatabase();
+  if (!db) throw new Error("This browser can't store attachments");
+
+  const attachment = {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name: file.name,
+    type: file.type,
+    size: file.size,
+  };
+  // Held until the entry it is attached to is saved
+  holdAttachments([attachment.id]);
+  await writeBlobs(db, [[attachment.id, file]]);
+  return attachment;
+};
+
+// The stored file, or null if it is missing or of a type that isn't shown
+export const getAttachmentBlob = async (id: string) => {
+  const db = await openDatabase();
+  const blob = db ? await fromStored(await readAttachment(db, id)) : null;
+  return blob && isAllowedType(blob.type) ? blob : null;
+};
+
+export const removeAttachments = async (ids: string[]) => {
+  releaseAttachments(ids);
+  const db = await openDatabase();
+  if (db && ids.length > 0) await deleteAttachments(db, ids);
+};
+
+// Delete stored files no entry refers to any more, e.g. ones left behind
+// when a tab closed before a deletion could no longer be undone. Held files
+// are still needed somewhere.
+export const pruneAttachments = async (expenses: Expense[]) => {
+  const db = await openDatabase();
+  if (!db) return;
+
+  const now = Date.now();
+  const held = Object.entries(readHolds())
+    .filter(([, until]) => until > now)
+    .map(([id]) => id);
+  const used = new Set([...getAttachmentIds(expenses), ...held]);
+  await deleteAttachments(
+    db,
+    (await readAttachmentIds(db)).filter((id) => !used.has(id))
+  );
+};
+
+export const exportAttachments = async (
+  expenses: Expense[]
+): Promise<AttachmentFiles> => {
+  const db = await openDatabase();
+  if (!db) return {};
+
+  const blobs = await readBlobs(db, getAttachmentIds(expenses));
+  return Object.fromEntries(
+    await Promise.all(
+      blobs.map(async ([id, blob]) => [id, await blobToDataUrl(blob)])
+    )
+  );
+};
+
+// Files of other types than the picker offers are dropped
+export const importAttachments = async (files: AttachmentFiles) => {
+  const db = await openDatabase();
+  if (!db) return;
+
+  const blobs = await Promise.all(
+    Object.entries(files).map(
+      async ([id, dataUrl]): Promise<[string, Blob]> => [
+        id,
+        await dataUrlToBlob(dataUrl),
+      ]
+    )
+  );
+  await writeBlobs(
+    db,
+    blobs.filter(([, blob]) => isAllowedType(blob.type))
+  );
+};
+
+// Run `change`, which turns the vault on or off or changes its key, and
+// store every file again the way the vault now wants them
+export const resealAttachments = async (change: () => Promise<void>) => {
+  const db = await openDatabase();
+  if (!db) return change();
+
+  const blobs = await readBlobs(db, await readAttachmentIds(db));
+  await change();
+  await writeBlobs(db, blobs);
+};
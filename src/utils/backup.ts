@@ -0,0 +1,189 @@
+import type { AttachmentFiles } from "./attachments";
+import {
+  SCHEMA_VERSION,
+  upgradeData,
+  type AppData,
+  type QuarantineEntry,
+} from "./storage";
+
+// Identifies our backups, so restoring some other JSON file fails early
+const BACKUP_FORMAT = "finance-tracker-backup";
+
+export type RestoreMode = "merge" | "replace";
+
+export type ChangeCount = {
+  added: number;
+  updated: number;
+  removed: number;
+};
+
+export type RestoreSummary = {
+  expenses: ChangeCount;
+  budgets: ChangeCount;
+  recurring: ChangeCount;
+  categories: ChangeCount;
+  accounts: ChangeCount;
+  goals: ChangeCount;
+  envelopeMoves: ChangeCount;
+  // Names of the settings that would change, e.g. "home currency"
+  settings: string[];
+};
+
+// Attached files travel next to the data, as data URLs by attachment id
+export const createBackup = (data: AppData, attachments: AttachmentFiles) =>
+  JSON.stringify(
+    {
+      format: BACKUP_FORMAT,
+      version: SCHEMA_VERSION,
+      exportedAt: new Date().toISOString(),
+      data,
+      attachments,
+    },
+    null,
+    2
+  );
+
+// Read a backup file, upgrading backups made by older versions of the app.
+// Throws with a readable message when the file isn't a backup at all.
+export const parseBackup = (
+  text: string
+): {
+  data: AppData;
+  rejected: QuarantineEntry[];
+  attachments: AttachmentFiles;
+  exportedAt: string;
+} => {
+  let backup;
+  try {
+    backup = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+
+  if (
+    typeof backup !== "object" ||
+    backup === null ||
+    backup.format !== BACKUP_FORMAT
+  ) {
+    throw new Error("The file is not a Finance Tracker backup");
+  }
+  if (typeof backup.version !== "number") {
+    throw new Error("The backup has no schema version");
+  }
+  if (typeof backup.data !== "object" || backup.data === null) {
+    throw new Error("The backup contains no data");
+  }
+
+  // Backups made before attachments existed have none
+  const attachments: AttachmentFiles = {};
+  if (typeof backup.attachments === "object" && backup.attachments !== null) {
+    Object.entries(backup.attachments).forEach(([id, file]) => {
+      if (typeof file === "string" && file.startsWith("data:")) {
+        attachments[id] = file;
+      }
+    });
+  }
+
+  return {
+    ...upgradeData(backup.version, backup.data),
+    attachments,
+    exportedAt: typeof backup.exportedAt === "string" ? backup.exportedAt : "",
+  };
+};
+
+// Combine two lists, with items from `incoming` replacing current items
+// that have the same key
+const mergeBy = <T>(
+  current: T[],
+  incoming: T[],
+  getKey: (item: T) => string
+) => {
+  const incomingKeys = new Set(incoming.map(getKey));
+  return [
+    ...current.filter((item) => !incomingKeys.has(getKey(item))),
+    ...incoming,
+  ];
+};
+
+// Merging keeps this device's settings and everything recorded on it,
+// adding or updating entries from the backup
+export const mergeData = (current: AppData, incoming: AppData): AppData => ({
+  ...current,
+  expenses: mergeBy(current.expenses, incoming.expenses, (e) => e.id),
+  budgets: mergeBy(current.budgets, incoming.budgets, (b) => b.category),
+  recurring: mergeBy(current.recurring, incoming.recurring, (t) => t.id),
+  categories: mergeBy(current.categories, incoming.categories, (c) => c.name),
+  accounts: mergeBy(current.accounts, incoming.accounts, (a) => a.id),
+  goals: mergeBy(current.goals, incoming.goals, (g) => g.id),
+  envelopeMoves: mergeBy(
+    current.envelopeMoves,
+    incoming.envelopeMoves,
+    (m) => m.id
+  ),
+  filterPresets: mergeBy(
+    current.filterPresets,
+    incoming.filterPresets,
+    (p) => p.name
+  ),
+  gameRewards: Math.max(current.gameRewards, incoming.gameRewards),
+  gameHighScore: Math.max(current.gameHighScore, incoming.gameHighScore),
+});
+
+const countChanges = <T>(
+  current: T[],
+  next: T[],
+  getKey: (item: T) => string
+): ChangeCount => {
+  const before = new Map(current.map((item) => [getKey(item), item]));
+  const nextKeys = new Set(next.map(getKey));
+  let added = 0;
+  let updated = 0;
+
+  next.forEach((item) => {
+    const previous = before.get(getKey(item));
+    if (!previous) added++;
+    else if (JSON.stringify(previous) !== JSON.stringify(item)) updated++;
+  });
+
+  return {
+    added,
+    updated,
+    removed: current.filter((item) => !nextKeys.has(getKey(item))).length,
+  };
+};
+
+export const summarizeRestore = (
+  current: AppData,
+  next: AppData
+): RestoreSummary => {
+  const settings = [
+    current.homeCurrency !== next.homeCurrency && "home currency",
+    JSON.stringify(current.exchangeRates) !==
+      JSON.stringify(next.exchangeRates) && "exchange rates",
+    JSON.stringify(current.filterPresets) !==
+      JSON.stringify(next.filterPresets) && "filter presets",
+    current.envelopeSince !== next.envelopeSince && "envelope mode",
+    next.darkMode !== null && current.darkMode !== next.darkMode && "theme",
+    current.gameRewards !== next.gameRewards && "game rewards",
+    current.gameHighScore !== next.gameHighScore && "game high score",
+  ].filter((name): name is string => !!name);
+
+  return {
+    expenses: countChanges(current.expenses, next.expenses, (e) => e.id),
+    budgets: countChanges(current.budgets, next.budgets, (b) => b.category),
+    recurring: countChanges(current.recurring, next.recurring, (t) => t.id),
+    categories: countChanges(
+      current.categories,
+      next.categories,
+      (c) => c.name
+    ),
+    accounts: countChanges(current.accounts, next.accounts, (a) => a.id),
+    goals: countChanges(current.goals, next.goals, (g) => g.id),
+    envelopeMoves: countChanges(
+      current.envelopeMoves,
+      next.envelopeMoves,
+      (m) => m.id
+    ),
+    settings,
+  };
+};
@@ -0,0 +1,64 @@
+import type { Budget, BudgetPeriod, Expense } from "../types";
+import { daysBetween, monthStart } from "./dates";
+
+// Share of the limit at which a budget is shown as a warning
+export const BUDGET_WARNING_THRESHOLD = 0.8;
+
+export type BudgetStatus = "ok" | "warning" | "over";
+
+// Start of the current week (Sunday) or month, at local midnight
+export const getPeriodStart = (period: BudgetPeriod, now = new Date()) => {
+  if (period === "weekly") {
+    return new Date(
+      now.getFullYear(),
+      now.getMonth(),
+      now.getDate() - now.getDay()
+    );
+  }
+  return new Date(now.getFullYear(), now.getMonth(), 1);
+};
+
+export const getBudgetSpent = (
+  budget: Budget,
+  expenses: Expense[],
+  now = new Date()
+) => {
+  const start = getPeriodStart(budget.period, now).getTime();
+
+  return expenses
+    .filter(
+      (expense) =>
+        expense.kind === "expense" &&
+        expense.category === budget.category &&
+        new Date(expense.date).getTime() >= start
+    )
+    .reduce((sum, expense) => sum + expense.amount, 0);
+};
+
+// A budget's limit over [start, end). A weekly limit is spread evenly over
+// the days; a monthly one over the days of each month, so a whole month
+// gets exactly its limit.
+export const getLimitBetween = (budget: Budget, start: Date, end: Date) => {
+  if (budget.period === "weekly") {
+    return (budget.limit * daysBetween(start, end)) / 7;
+  }
+
+  let limit = 0;
+  for (
+    let month = monthStart(start);
+    month < end;
+    month = monthStart(month, 1)
+  ) {
+    const next = monthStart(month, 1);
+    const from = start > month ? start : month;
+    const to = end < next ? end : next;
+    limit += (budget.limit * daysBetween(from, to)) / daysBetween(month, next);
+  }
+  return limit;
+};
+
+export const getBudgetStatus = (spent: number, limit: number): BudgetStatus => {
+  if (spent > limit) return "over";
+  if (spent >= limit * BUDGET_WARNING_THRESHOLD) return "warning";
+  return "ok";
+};
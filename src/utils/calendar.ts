@@ -0,0 +1,71 @@
+import type { Expense } from "../types";
+import { toDateInputValue } from "./dateRange";
+
+// Shades above "nothing spent" on the heatmap
+export const HEATMAP_LEVELS = 4;
+
+export type DayTotals = {
+  // Spending per local day, keyed "YYYY-MM-DD"
+  spending: Map<string, number>;
+  // Days income came in
+  paydays: Set<string>;
+};
+
+export const toDayKey = (date: Date) => toDateInputValue(date);
+
+export const isWeekend = (date: Date) =>
+  date.getDay() === 0 || date.getDay() === 6;
+
+export const getDayTotals = (expenses: Expense[]): DayTotals => {
+  const spending = new Map<string, number>();
+  const paydays = new Set<string>();
+
+  expenses.forEach((expense) => {
+    const key = toDayKey(new Date(expense.date));
+    if (expense.kind === "expense") {
+      spending.set(key, (spending.get(key) || 0) + expense.amount);
+    } else if (expense.kind === "income") {
+      paydays.add(key);
+    }
+  });
+
+  return { spending, paydays };
+};
+
+// Sunday-first weeks covering [start, end). Days outside the range are
+// null so every week has seven slots.
+export const getCalendarWeeks = (start: Date, end: Date) => {
+  const weeks: (Date | null)[][] = [];
+  const first = new Date(
+    start.getFullYear(),
+    start.getMonth(),
+    start.getDate() - start.getDay()
+  );
+
+  for (let day = first; day < end; ) {
+    const week: (Date | null)[] = [];
+    for (let i = 0; i < 7; i++) {
+      week.push(day >= start && day < end ? day : null);
+      day = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1);
+    }
+    weeks.push(week);
+  }
+  return weeks;
+};
+
+// Maps a day's spending to a shade from 0 (nothing) to HEATMAP_LEVELS.
+// Steps are quantiles of the days with spending, so one big day doesn't
+// wash out the rest.
+export const getHeatmapScale = (values: number[]) => {
+  const sorted = values.filter((value) => value > 0).sort((a, b) => a - b);
+  const thresholds = Array.from(
+    { length: HEATMAP_LEVELS - 1 },
+    (_, i) =>
+      sorted[Math.floor(((i + 1) * sorted.length) / HEATMAP_LEVELS)] ?? 0
+  );
+
+  return (value: number) =>
+    value > 0
+      ? 1 + thresholds.filter((threshold) => value >= threshold).length
+      : 0;
+};
@@ -0,0 +1,22 @@
+import type { Expense } from "../types";
+
+// "Save at least 20% of your income", as the game teaches
+export const SAVINGS_RATE_TARGET = 0.2;
+
+export const getCashFlow = (expenses: Expense[]) => {
+  const income = expenses
+    .filter((expense) => expense.kind === "income")
+    .reduce((sum, expense) => sum + expense.amount, 0);
+  const spending = expenses
+    .filter((expense) => expense.kind === "expense")
+    .reduce((sum, expense) => sum + expense.amount, 0);
+  const net = income - spending;
+
+  return {
+    income,
+    spending,
+    net,
+    // No savings rate without income to measure it against
+    savingsRate: income > 0 ? net / income : null,
+  };
+};
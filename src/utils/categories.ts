@@ -0,0 +1,128 @@
+import type { Budget, Category, Split, TransactionKind } from "../types";
+
+// Used for names that are not in the category list
+const FALLBACK_COLOR = "#9ca3af";
+
+export const DEFAULT_CATEGORIES: Category[] = [
+  {
+    name: "Food & Dining",
+    kind: "expense",
+    color: "#ff6384",
+    icon: "utensils",
+    archived: false,
+  },
+  {
+    name: "Transportation",
+    kind: "expense",
+    color: "#36a2eb",
+    icon: "car",
+    archived: false,
+  },
+  {
+    name: "Shopping",
+    kind: "expense",
+    color: "#ffce56",
+    icon: "shopping-bag",
+    archived: false,
+  },
+  {
+    name: "Entertainment",
+    kind: "expense",
+    color: "#4bc0c0",
+    icon: "film",
+    archived: false,
+  },
+  {
+    name: "Bills & Utilities",
+    kind: "expense",
+    color: "#9966ff",
+    icon: "receipt",
+    archived: false,
+  },
+  {
+    name: "Others",
+    kind: "expense",
+    color: "#ff9f40",
+    icon: "package",
+    archived: false,
+  },
+  {
+    name: "Salary",
+    kind: "income",
+    color: "#22c55e",
+    icon: "briefcase",
+    archived: false,
+  },
+  {
+    name: "Freelance",
+    kind: "income",
+    color: "#14b8a6",
+    icon: "laptop",
+    archived: false,
+  },
+  {
+    name: "Refunds",
+    kind: "income",
+    color: "#84cc16",
+    icon: "rotate-ccw",
+    archived: false,
+  },
+  {
+    name: "Other Income",
+    kind: "income",
+    color: "#10b981",
+    icon: "coins",
+    archived: false,
+  },
+];
+
+// Names of the categories that can be picked for new entries
+export const getActiveCategoryNames = (
+  categories: Category[],
+  kind: TransactionKind
+) =>
+  categories
+    .filter((category) => category.kind === kind && !category.archived)
+    .map((category) => category.name);
+
+export const findCategory = (categories: Category[], name: string) =>
+  categories.find((category) => category.name === name);
+
+export const getCategoryColor = (categories: Category[], name: string) =>
+  findCategory(categories, name)?.color || FALLBACK_COLOR;
+
+// Category to use when an imported value matches nothing: "Others" if it
+// is still around, otherwise the last category in the list
+export const getFallbackCategory = (names: string[], preferred: string) =>
+  names.includes(preferred) ? preferred : names[names.length - 1] || "";
+
+// Point everything filed under `from` at `to`, including the lines of
+// split transactions. Untouched items keep their identity.
+export const replaceCategory = <
+  T extends { category: string; splits?: Split[] }
+>(
+  items: T[],
+  from: string,
+  to: string
+) =>
+  items.map((item) =>
+    item.category === from ||
+    item.splits?.some((split) => split.category === from)
+      ? {
+          ...item,
+          category: item.category === from ? to : item.category,
+          ...(item.splits && {
+            splits: item.splits.map((split) =>
+              split.category === from ? { ...split, category: to } : split
+            ),
+          }),
+        }
+      : item
+  );
+
+// Budgets allow one entry per category, so when merging into a category
+// that already has a budget the source budget is dropped
+export const mergeBudgets = (budgets: Budget[], from: string, to: string) =>
+  budgets.some((budget) => budget.category === to)
+    ? budgets.filter((budget) => budget.category !== from)
+    : replaceCategory(budgets, from, to);
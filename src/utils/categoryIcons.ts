@@ -0,0 +1,57 @@
+import {
+  Baby,
+  Briefcase,
+  Car,
+  Coffee,
+  Coins,
+  Dumbbell,
+  Film,
+  Fuel,
+  Gift,
+  GraduationCap,
+  Heart,
+  Home,
+  Laptop,
+  Package,
+  PawPrint,
+  PiggyBank,
+  Plane,
+  Receipt,
+  RotateCcw,
+  Shirt,
+  ShoppingBag,
+  Smartphone,
+  Tag,
+  Utensils,
+  type LucideIcon,
+} from "lucide-react";
+
+// Icons users can pick for a category, keyed by the name stored on it
+export const CATEGORY_ICONS: Record<string, LucideIcon> = {
+  utensils: Utensils,
+  car: Car,
+  "shopping-bag": ShoppingBag,
+  film: Film,
+  receipt: Receipt,
+  package: Package,
+  home: Home,
+  heart: Heart,
+  plane: Plane,
+  "graduation-cap": GraduationCap,
+  gift: Gift,
+  coffee: Coffee,
+  fuel: Fuel,
+  shirt: Shirt,
+  smartphone: Smartphone,
+  dumbbell: Dumbbell,
+  "paw-print": PawPrint,
+  baby: Baby,
+  briefcase: Briefcase,
+  laptop: Laptop,
+  "rotate-ccw": RotateCcw,
+  coins: Coins,
+  "piggy-bank": PiggyBank,
+  tag: Tag,
+};
+
+export const getCategoryIcon = (icon: string) => CATEGORY_ICONS[icon] || Tag;
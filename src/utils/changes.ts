@@ -0,0 +1,163 @@
+import type {
+  Account,
+  Budget,
+  Category,
+  EnvelopeMove,
+  Expense,
+  RecurringTemplate,
+  SavingsGoal,
+} from "../types";
+import type { AppData } from "./storage";
+
+// Added or edited items of a list, and the keys of the ones deleted
+export type ListChanges<T> = {
+  put: T[];
+  deleted: string[];
+};
+
+type Settings = Omit<
+  AppData,
+  | "expenses"
+  | "budgets"
+  | "recurring"
+  | "categories"
+  | "accounts"
+  | "goals"
+  | "envelopeMoves"
+>;
+
+// What changed between two versions of the app data. Lists change item by
+// item, so edits to different items from different tabs don't overwrite
+// each other.
+export type ChangeSet = {
+  expenses: ListChanges<Expense>;
+  budgets: ListChanges<Budget>;
+  recurring: ListChanges<RecurringTemplate>;
+  categories: ListChanges<Category>;
+  accounts: ListChanges<Account>;
+  goals: ListChanges<SavingsGoal>;
+  envelopeMoves: ListChanges<EnvelopeMove>;
+  settings: Partial<Settings>;
+};
+
+export const getExpenseKey = (expense: Expense) => expense.id;
+export const getBudgetKey = (budget: Budget) => budget.category;
+export const getRecurringKey = (template: RecurringTemplate) => template.id;
+export const getCategoryKey = (category: Category) => category.name;
+export const getAccountKey = (account: Account) => account.id;
+export const getGoalKey = (goal: SavingsGoal) => goal.id;
+export const getEnvelopeMoveKey = (move: EnvelopeMove) => move.id;
+
+const SETTINGS: (keyof Settings)[] = [
+  "homeCurrency",
+  "exchangeRates",
+  "filterPresets",
+  "envelopeSince",
+  "gameRewards",
+  "gameHighScore",
+  "darkMode",
+];
+
+// State updates replace an edited item with a new object, so comparing by
+// identity finds everything that changed
+const getListChanges = <T>(
+  previous: T[],
+  next: T[],
+  getKey: (item: T) => string
+): ListChanges<T> => {
+  const before = new Map(previous.map((item) => [getKey(item), item]));
+  const nextKeys = new Set(next.map(getKey));
+  return {
+    put: next.filter((item) => before.get(getKey(item)) !== item),
+    deleted: previous.map(getKey).filter((key) => !nextKeys.has(key)),
+  };
+};
+
+export const getChanges = (previous: AppData, next: AppData): ChangeSet => {
+  const settings: Partial<Settings> = {};
+  SETTINGS.forEach((key) => {
+    if (previous[key] !== next[key]) {
+      Object.assign(settings, { [key]: next[key] });
+    }
+  });
+
+  return {
+    expenses: getListChanges(previous.expenses, next.expenses, getExpenseKey),
+    budgets: getListChanges(previous.budgets, next.budgets, getBudgetKey),
+    recurring: getListChanges(
+      previous.recurring,
+      next.recurring,
+      getRecurringKey
+    ),
+    categories: getListChanges(
+      previous.categories,
+      next.categories,
+      getCategoryKey
+    ),
+    accounts: getListChanges(previous.accounts, next.accounts, getAccountKey),
+    goals: getListChanges(previous.goals, next.goals, getGoalKey),
+    envelopeMoves: getListChanges(
+      previous.envelopeMoves,
+      next.envelopeMoves,
+      getEnvelopeMoveKey
+    ),
+    settings,
+  };
+};
+
+export const isEmptyChangeSet = (changes: ChangeSet) =>
+  [
+    changes.expenses,
+    changes.budgets,
+    changes.recurring,
+    changes.categories,
+    changes.accounts,
+    changes.goals,
+    changes.envelopeMoves,
+  ].every((list) => list.put.length === 0 && list.deleted.length === 0) &&
+  Object.keys(changes.settings).length === 0;
+
+// Apply list changes, keeping the position of items that already exist
+export const applyListChanges = <T>(
+  items: T[],
+  changes: ListChanges<T>,
+  getKey: (item: T) => string
+) => {
+  if (changes.put.length === 0 && changes.deleted.length === 0) return items;
+
+  const put = new Map(changes.put.map((item) => [getKey(item), item]));
+  const deleted = new Set(changes.deleted);
+  const updated = items
+    .filter((item) => !deleted.has(getKey(item)))
+    .map((item) => {
+      const replacement = put.get(getKey(item));
+      put.delete(getKey(item));
+      return replacement || item;
+    });
+
+  return [...updated, ...put.values()];
+};
+
+export const applyChanges = (data: AppData, changes: ChangeSet): AppData => ({
+  ...data,
+  ...changes.settings,
+  expenses: applyListChanges(data.expenses, changes.expenses, getExpenseKey),
+  budgets: applyListChanges(data.budgets, changes.budgets, getBudgetKey),
+  recurring: applyListChanges(
+    data.recurring,
+    changes.recurring,
+    getRecurringKey
+  ),
+  categories: applyListChanges(
+    data.categories,
+    changes.categories,
+    getCategoryKey
+  ),
+  accounts: applyListChanges(data.accounts, changes.accounts, getAccountKey),
+  goals: applyListChanges(data.goals, changes.goals, getGoalKey),
+  envelopeMoves: applyListChanges(
+    data.envelopeMoves,
+    changes.envelopeMoves,
+    getEnvelopeMoveKey
+  ),
+});
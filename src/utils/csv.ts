@@ -0,0 +1,172 @@
+import type { Account, Expense } from "../types";
+
+// Split CSV text into rows of fields. Handles quoted fields with embedded
+// commas, quotes ("") and line breaks.
+export const parseCsv = (text: string) => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows
+    .filter((r) => r.some((value) => value.trim() !== ""))
+    .map((r) => r.map(unescapeCsvField));
+};
+
+// Text a spreadsheet would run as a formula, e.g. "=HYPERLINK(...)" in a
+// payee from an imported statement. Plain numbers like "-12.00" are fine.
+const isFormulaLike = (value: string) =>
+  /^[=+\-@\t\r]/.test(value) && isNaN(Number(value));
+
+// Formula-like text gets a leading apostrophe, which spreadsheets show as
+// plain text
+const escapeCsvField = (value: string) => {
+  const safe = isFormulaLike(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+// Drop the apostrophe escapeCsvField adds, so exported files import as they
+// were
+const unescapeCsvField = (value: string) =>
+  value.startsWith("'") && isFormulaLike(value.slice(1))
+    ? value.slice(1)
+    : value;
+
+export const toCsv = (rows: string[][]) =>
+  rows.map((row) => row.map(escapeCsvField).join(",")).join("\r\n");
+
+export const expensesToCsv = (expenses: Expense[], accounts: Account[]) => {
+  const accountName = (id?: string) =>
+    accounts.find((account) => account.id === id)?.name || "";
+
+  return toCsv([
+    [
+      "Date",
+      "Amount",
+      "Currency",
+      "Category",
+      "Description",
+      "Type",
+      "Account",
+      "To Account",
+    ],
+    ...expenses.map((expense) => [
+      expense.date,
+      expense.amount.toFixed(2),
+      expense.currency,
+      expense.category,
+      expense.description,
+      expense.kind,
+      accountName(expense.accountId),
+      accountName(expense.toAccountId),
+    ]),
+  ]);
+};
+
+// Accepts "1,234.56", "1.234,56", "12,50", "$12", "-12.00" and "(12.00)".
+// The decimal separator is the last "," or "." followed by one or two
+// digits; the other one may group thousands. Returns NaN when the value is
+// not a number, or when it can't be told which it is, as in "1.234".
+export const parseAmount = (value: string) => {
+  const trimmed = value.trim();
+  const negative = /^\(.*\)$/.test(trimmed);
+  const cleaned = trimmed.replace(/[^0-9.,-]/g, "");
+  const match = cleaned.match(/^(-?)(.*?)(?:([.,])(\d{1,2}))?$/);
+  if (!match) return NaN;
+
+  const [, sign, whole, separator, fraction] = match;
+  const wellFormed =
+    separator === ","
+      ? /^(\d*|\d{1,3}(\.\d{3})+)$/.test(whole)
+      : separator === "."
+      ? /^(\d*|\d{1,3}(,\d{3})+)$/.test(whole)
+      : /^(\d+|\d{1,3}(,\d{3})+|\d{1,3}(\.\d{3}){2,})$/.test(whole);
+  if (!wellFormed) return NaN;
+
+  const amount = Number(
+    `${sign}${whole.replace(/[.,]/g, "") || "0"}${
+      separator ? `.${fraction}` : ""
+    }`
+  );
+  return negative ? -amount : amount;
+};
+
+// Local midnight on the given day (month 1-12), or null for a day that
+// doesn't exist. Date would roll "02/30" over into March instead.
+export const toCalendarDate = (year: number, month: number, day: number) => {
+  const date = new Date(year, month - 1, day);
+  return date.getFullYear() === year &&
+    date.getMonth() === month - 1 &&
+    date.getDate() === day
+    ? date
+    : null;
+};
+
+// Accepts ISO dates ("2024-03-31", with or without time) and US style
+// "03/31/2024". Returns null when the value is not a date.
+export const parseDate = (value: string) => {
+  const trimmed = value.trim();
+
+  // The date part is checked as written, so "2024-02-30T00:00:00.000Z"
+  // doesn't roll over into March
+  const iso = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})([T ].+)?$/);
+  if (iso) {
+    const day = toCalendarDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+    if (!day || !iso[4]) return day;
+    const date = new Date(trimmed);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  const us = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/);
+  if (us) {
+    const year = Number(us[3]) < 100 ? 2000 + Number(us[3]) : Number(us[3]);
+    return toCalendarDate(year, Number(us[1]), Number(us[2]));
+  }
+
+  const date = new Date(trimmed);
+  return trimmed && !isNaN(date.getTime()) ? date : null;
+};
+
+// Key used to spot the same expense imported twice
+export const getDuplicateKey = (
+  expense: Pick<Expense, "date" | "amount" | "description">
+) =>
+  [
+    new Date(expense.date).toDateString(),
+    expense.amount.toFixed(2),
+    expense.description.trim().toLowerCase(),
+  ].join("|");
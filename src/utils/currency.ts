@@ -0,0 +1,89 @@
+import type { ExchangeRates } from "../types";
+
+export const DEFAULT_CURRENCY = "USD";
+
+// Starting table so conversion works out of the box. Users are expected to
+// keep it up to date themselves; nothing is fetched online.
+export const DEFAULT_RATES: ExchangeRates = {
+  base: "USD",
+  rates: {
+    USD: 1,
+    EUR: 0.92,
+    GBP: 0.79,
+    JPY: 150,
+    CAD: 1.36,
+    AUD: 1.52,
+    CHF: 0.88,
+    INR: 83,
+    CNY: 7.2,
+    MXN: 17,
+  },
+};
+
+export const hasRate = (table: ExchangeRates, currency: string) =>
+  currency === table.base || table.rates[currency] > 0;
+
+// Rates are units of each currency per one unit of the table's base, so a
+// conversion goes through the base. Missing rates convert 1:1.
+export const convert = (
+  amount: number,
+  from: string,
+  to: string,
+  table: ExchangeRates
+) => {
+  if (from === to || !hasRate(table, from) || !hasRate(table, to)) {
+    return amount;
+  }
+  const fromRate = from === table.base ? 1 : table.rates[from];
+  const toRate = to === table.base ? 1 : table.rates[to];
+  return (amount / fromRate) * toRate;
+};
+
+export const formatMoney = (amount: number, currency: string) => {
+  try {
+    return new Intl.NumberFormat(undefined, {
+      style: "currency",
+      currency,
+    }).format(amount);
+  } catch {
+    // Not an ISO 4217 code Intl knows about
+    return `${currency} ${amount.toFixed(2)}`;
+  }
+};
+
+// Read a rate table file. Accepts JSON ({ "base": "USD", "rates": {...} })
+// or CSV lines of "code,rate" relative to the current base.
+export const parseRatesFile = (
+  text: string,
+  currentBase: string
+): ExchangeRates | null => {
+  try {
+    const json = JSON.parse(text);
+    if (
+      json &&
+      typeof json.base === "string" &&
+      typeof json.rates === "object"
+    ) {
+      const rates: Record<string, number> = {};
+      Object.entries(json.rates).forEach(([code, rate]) => {
+        if (typeof rate === "number" && rate > 0)
+          rates[code.toUpperCase()] = rate;
+      });
+      return { base: json.base.toUpperCase(), rates };
+    }
+    return null;
+  } catch {
+    // Not JSON, try CSV below
+  }
+
+  const rates: Record<string, number> = {};
+  text.split(/\r?\n/).forEach((line) => {
+    const [code, rate] = line.split(",").map((value) => value.trim());
+    const value = parseFloat(rate);
+    if (/^[A-Za-z]{3}$/.test(code || "") && value > 0) {
+      rates[code.toUpperCase()] = value;
+    }
+  });
+
+  return Object.keys(rates).length > 0 ? { base: currentBase, rates } : null;
+};
@@ -0,0 +1,70 @@
+import { getPeriodStart } from "./budget";
+
+export type PeriodPreset = "all" | "week" | "month" | "last30" | "custom";
+
+export type DateRange = {
+  start: Date | null;
+  end: Date | null;
+};
+
+export const PERIOD_LABELS: Record<PeriodPreset, string> = {
+  all: "All time",
+  week: "This week",
+  month: "This month",
+  last30: "Last 30 days",
+  custom: "Custom range",
+};
+
+const pad = (value: number) => value.toString().padStart(2, "0");
+
+// Local "YYYY-MM-DD", the format used by <input type="date">
+export const toDateInputValue = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// Local "HH:MM", the format used by <input type="time">
+export const toTimeInputValue = (date: Date) =>
+  `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+// Parse a "YYYY-MM-DD" value (and optional "HH:MM") as local time
+export const fromDateInputValue = (date: string, time = "") => {
+  const [year, month, day] = date.split("-").map(Number);
+  const [hours, minutes] = time ? time.split(":").map(Number) : [0, 0];
+  return new Date(year, month - 1, day, hours, minutes);
+};
+
+export const getDateRange = (
+  preset: PeriodPreset,
+  customStart = "",
+  customEnd = "",
+  now = new Date()
+): DateRange => {
+  switch (preset) {
+    case "week":
+      return { start: getPeriodStart("weekly", now), end: null };
+    case "month":
+      return { start: getPeriodStart("monthly", now), end: null };
+    case "last30":
+      return {
+        start: new Date(now.getFullYear(), now.getMonth(), now.getDate() - 29),
+        end: null,
+      };
+    case "custom": {
+      // The end date is inclusive, so the range stops at the next midnight
+      const end = customEnd ? fromDateInputValue(customEnd) : null;
+      if (end) end.setDate(end.getDate() + 1);
+      return {
+        start: customStart ? fromDateInputValue(customStart) : null,
+        end,
+      };
+    }
+    default:
+      return { start: null, end: null };
+  }
+};
+
+export const isInRange = (date: string, range: DateRange) => {
+  const time = new Date(date).getTime();
+  if (range.start && time < range.start.getTime()) return false;
+  if (range.end && time >= range.end.getTime()) return false;
+  return true;
+};
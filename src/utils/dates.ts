@@ -0,0 +1,10 @@
+export const DAY = 24 * 60 * 60 * 1000;
+
+// Whole days from one local midnight to another, allowing for clocks
+// changing in between
+export const daysBetween = (start: Date, end: Date) =>
+  Math.round((end.getTime() - start.getTime()) / DAY);
+
+// Local midnight on the first of the month, `offset` months away
+export const monthStart = (date: Date, offset = 0) =>
+  new Date(date.getFullYear(), date.getMonth() + offset, 1);
@@ -0,0 +1,190 @@
+import type { Expense } from "../types";
+import type { DateRange } from "./dateRange";
+
+const DB_NAME = "financeTracker";
+const DB_VERSION = 2;
+
+// Expenses get a record each so a change only rewrites what changed.
+// Everything else is small and lives in a single record in META.
+const EXPENSES = "expenses";
+const META = "meta";
+const META_KEY = "data";
+// Attached files, stored apart from the entries so reading the entries
+// doesn't read every receipt too
+const ATTACHMENTS = "attachments";
+
+// Records are stored as given; the storage module decides their shape
+type StoredRecord = { id: string };
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionToPromise = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+let opening: Promise<IDBDatabase | null> | null = null;
+
+// Resolves to null where IndexedDB isn't available, e.g. in some private
+// browsing modes, so callers can fall back to localStorage
+export const openDatabase = () => {
+  if (!opening) {
+    opening = new Promise((resolve) => {
+      if (typeof indexedDB === "undefined") {
+        resolve(null);
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          const expenses = db.createObjectStore(EXPENSES, { keyPath: "id" });
+          expenses.createIndex("date", "date");
+          expenses.createIndex("category", "category");
+          db.createObjectStore(META);
+        }
+        if (event.oldVersion < 2) db.createObjectStore(ATTACHMENTS);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => resolve(null);
+    });
+  }
+  return opening;
+};
+
+// Everything in the database, or null if nothing has been saved yet
+export const readDatabase = async (db: IDBDatabase) => {
+  const transaction = db.transaction([EXPENSES, META], "readonly");
+  const [meta, expenses] = await Promise.all([
+    requestToPromise<unknown>(transaction.objectStore(META).get(META_KEY)),
+    requestToPromise<unknown[]>(transaction.objectStore(EXPENSES).getAll()),
+  ]);
+  return meta ? { meta, expenses } : null;
+};
+
+export const readMeta = (db: IDBDatabase) =>
+  requestToPromise<unknown>(
+    db.transaction(META, "readonly").objectStore(META).get(META_KEY)
+  );
+
+// Replace the whole database, e.g. after a migration
+export const writeDatabase = (
+  db: IDBDatabase,
+  meta: unknown,
+  expenses: StoredRecord[]
+) => {
+  const transaction = db.transaction([EXPENSES, META], "readwrite");
+  const store = transaction.objectStore(EXPENSES);
+  store.clear();
+  expenses.forEach((expense) => store.put(expense));
+  transaction.objectStore(META).put(meta, META_KEY);
+  return transactionToPromise(transaction);
+};
+
+// Write only the expenses that were added, changed or deleted
+export const writeChanges = (
+  db: IDBDatabase,
+  meta: unknown,
+  changed: StoredRecord[],
+  deletedIds: string[]
+) => {
+  const transaction = db.transaction([EXPENSES, META], "readwrite");
+  const store = transaction.objectStore(EXPENSES);
+  changed.forEach((expense) => store.put(expense));
+  deletedIds.forEach((id) => store.delete(id));
+  transaction.objectStore(META).put(meta, META_KEY);
+  return transactionToPromise(transaction);
+};
+
+const toKeyRange = (range: DateRange) => {
+  // Dates are stored as ISO strings, which sort the same way as the times
+  const start = range.start?.toISOString();
+  const end = range.end?.toISOString();
+  if (start && end) return IDBKeyRange.bound(start, end, false, true);
+  if (start) return IDBKeyRange.lowerBound(start);
+  if (end) return IDBKeyRange.upperBound(end, true);
+  return null;
+};
+
+// One page of expenses in the range, newest first. With `matches`, only
+// the expenses it accepts count towards the offset and the page.
+export const queryDatabase = (
+  db: IDBDatabase,
+  range: DateRange,
+  offset: number,
+  limit: number,
+  matches?: (expense: Expense) => boolean
+) =>
+  new Promise<Expense[]>((resolve, reject) => {
+    const page: Expense[] = [];
+    const request = db
+      .transaction(EXPENSES, "readonly")
+      .objectStore(EXPENSES)
+      .index("date")
+      .openCursor(toKeyRange(range), "prev");
+    let skipped = offset === 0;
+    let toSkip = offset;
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor || page.length >= limit) {
+        resolve(page);
+        return;
+      }
+      if (matches) {
+        // Which records match isn't known up front, so skip them one by one
+        if (matches(cursor.value)) {
+          if (toSkip > 0) toSkip--;
+          else page.push(cursor.value);
+        }
+        cursor.continue();
+        return;
+      }
+      if (!skipped) {
+        skipped = true;
+        cursor.advance(offset);
+        return;
+      }
+      page.push(cursor.value);
+      cursor.continue();
+    };
+  });
+
+export const readAttachment = (db: IDBDatabase, id: string) =>
+  requestToPromise<unknown>(
+    db.transaction(ATTACHMENTS, "readonly").objectStore(ATTACHMENTS).get(id)
+  );
+
+export const readAttachmentIds = (db: IDBDatabase) =>
+  requestToPromise<IDBValidKey[]>(
+    db
+      .transaction(ATTACHMENTS, "readonly")
+      .objectStore(ATTACHMENTS)
+      .getAllKeys()
+  ).then((keys) => keys.map(String));
+
+// Files are stored as given; the attachments module decides their shape
+export const writeAttachments = (
+  db: IDBDatabase,
+  files: [id: string, file: unknown][]
+) => {
+  const transaction = db.transaction(ATTACHMENTS, "readwrite");
+  const store = transaction.objectStore(ATTACHMENTS);
+  files.forEach(([id, file]) => store.put(file, id));
+  return transactionToPromise(transaction);
+};
+
+export const deleteAttachments = (db: IDBDatabase, ids: string[]) => {
+  const transaction = db.transaction(ATTACHMENTS, "readwrite");
+  const store = transaction.objectStore(ATTACHMENTS);
+  ids.forEach((id) => store.delete(id));
+  return transactionToPromise(transaction);
+};
@@ -0,0 +1,13 @@
+// Save text content as a file through a temporary object URL
+export const downloadFile = (
+  content: string,
+  filename: string,
+  type = "text/plain"
+) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,176 @@
+import type { Budget, EnvelopeMove, EnvelopeRollover, Expense } from "../types";
+import { getLimitBetween } from "./budget";
+import { monthStart } from "./dates";
+
+export type EnvelopeBalance = {
+  category: string;
+  rollover: EnvelopeRollover;
+  // This month's allocation, and how much of it income has covered
+  allocation: number;
+  funded: number;
+  // Brought forward from last month; negative if overspending was left
+  // uncovered
+  carried: number;
+  movedIn: number;
+  movedOut: number;
+  spent: number;
+  available: number;
+  // Unspent money swept to savings at the end of earlier months
+  swept: number;
+};
+
+export type EnvelopeSummary = {
+  envelopes: EnvelopeBalance[];
+  // Income not allocated yet. It stays available to fund later months.
+  unallocated: number;
+  // Spending this month in categories without an envelope
+  unbudgeted: number;
+  swept: number;
+};
+
+export type EnvelopeInput = {
+  // Category lines in the home currency
+  lines: Expense[];
+  budgets: Budget[];
+  moves: EnvelopeMove[];
+  // Start of the first month envelopes are tracked from
+  since: string;
+  now?: Date;
+};
+
+// Months are numbered so consecutive months differ by one
+const toMonthIndex = (date: Date) => date.getFullYear() * 12 + date.getMonth();
+
+const fromMonthIndex = (index: number) =>
+  new Date(Math.floor(index / 12), index % 12, 1);
+
+export const getEnvelopeRollover = (budget: Budget): EnvelopeRollover =>
+  budget.rollover || "rollover";
+
+// Envelopes are funded once a month. A weekly budget gets a seventh of its
+// limit for each day of the month.
+export const getMonthlyAllocation = (budget: Budget, month: Date) =>
+  getLimitBetween(budget, month, monthStart(month, 1));
+
+// Replay every month since envelope mode began. Each month's income, plus
+// whatever was left unallocated before, funds the envelopes; when it falls
+// short, every envelope gets the same share of its allocation. At the end
+// of a month an envelope keeps its balance, or has what's left swept to
+// savings. Overspending that wasn't covered is carried either way.
+export const getEnvelopeSummary = ({
+  lines,
+  budgets,
+  moves,
+  since,
+  now = new Date(),
+}: EnvelopeInput): EnvelopeSummary => {
+  const first = toMonthIndex(new Date(since));
+  const current = toMonthIndex(now);
+  const categories = budgets.map((budget) => budget.category);
+
+  const income = new Map<number, number>();
+  // Spending per month, by category
+  const spending = new Map<number, Map<string, number>>();
+  lines.forEach((line) => {
+    const month = toMonthIndex(new Date(line.date));
+    if (month < first || month > current) return;
+    if (line.kind === "income") {
+      income.set(month, (income.get(month) || 0) + line.amount);
+    } else if (line.kind === "expense") {
+      const byCategory = spending.get(month) || new Map<string, number>();
+      byCategory.set(
+        line.category,
+        (byCategory.get(line.category) || 0) + line.amount
+      );
+      spending.set(month, byCategory);
+    }
+  });
+
+  const envelopes: EnvelopeBalance[] = budgets.map((budget) => ({
+    category: budget.category,
+    rollover: getEnvelopeRollover(budget),
+    allocation: 0,
+    funded: 0,
+    carried: 0,
+    movedIn: 0,
+    movedOut: 0,
+    spent: 0,
+    available: 0,
+    swept: 0,
+  }));
+  let unallocated = 0;
+
+  for (let month = first; month <= current; month++) {
+    const start = fromMonthIndex(month);
+    const allocations = budgets.map((budget) =>
+      getMonthlyAllocation(budget, start)
+    );
+    const planned = allocations.reduce((sum, amount) => sum + amount, 0);
+    unallocated += income.get(month) || 0;
+    const share = planned > 0 ? Math.min(1, unallocated / planned) : 0;
+    unallocated -= planned * share;
+
+    const monthMoves = moves.filter(
+      (move) => toMonthIndex(new Date(move.date)) === month
+    );
+    const monthSpending = spending.get(month);
+
+    envelopes.forEach((envelope, index) => {
+      // Last month's closing balance, less anything swept to savings
+      if (month > first) {
+        if (envelope.rollover === "sweep" && envelope.available > 0) {
+          envelope.swept += envelope.available;
+          envelope.carried = 0;
+        } else {
+          envelope.carried = envelope.available;
+        }
+      }
+
+      envelope.allocation = allocations[index];
+      envelope.funded = allocations[index] * share;
+      envelope.movedIn = monthMoves
+        .filter((move) => move.to === envelope.category)
+        .reduce((sum, move) => sum + move.amount, 0);
+      envelope.movedOut = monthMoves
+        .filter((move) => move.from === envelope.category)
+        .reduce((sum, move) => sum + move.amount, 0);
+      envelope.spent = monthSpending?.get(envelope.category) || 0;
+      envelope.available =
+        envelope.carried +
+        envelope.funded +
+        envelope.movedIn -
+        envelope.movedOut -
+        envelope.spent;
+    });
+  }
+
+  const unbudgeted = Array.from(spending.get(current)?.entries() || [])
+    .filter(([category]) => !categories.includes(category))
+    .reduce((sum, [, amount]) => sum + amount, 0);
+
+  return {
+    envelopes,
+    unallocated,
+    unbudgeted,
+    swept: envelopes.reduce((sum, envelope) => sum + envelope.swept, 0),
+  };
+};
+
+// Follow a category rename or merge. Moves that would now go from an
+// envelope to itself are dropped.
+export const renameEnvelope = (
+  moves: EnvelopeMove[],
+  from: string,
+  to: string
+) =>
+  moves
+    .map((move) =>
+      move.from === from || move.to === from
+        ? {
+            ...move,
+            from: move.from === from ? to : move.from,
+            to: move.to === from ? to : move.to,
+          }
+        : move
+    )
+    .filter((move) => move.from !== move.to);
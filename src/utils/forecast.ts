@@ -0,0 +1,251 @@
+import type { Budget, Expense, RecurringTemplate } from "../types";
+import { getLimitBetween } from "./budget";
+import { DAY, monthStart } from "./dates";
+import { getOccurrencesBetween, isActiveTemplate } from "./recurring";
+import { standardDeviation, sum } from "./stats";
+
+// Months of history looked at for the usual end of month
+const RECENT_MONTHS = 3;
+// Months of history the spread of the forecast is measured over
+const SPREAD_MONTHS = 6;
+// The band covers roughly 80% of outcomes
+const BAND_Z = 1.28;
+// Seasonal adjustment is kept between these factors
+const SEASONALITY_LIMITS = [0.5, 2];
+
+export type ForecastLine = {
+  // Spent so far this month
+  spent: number;
+  // Recurring items still to come this month
+  recurring: number;
+  // Expected total at the end of the month, and the band around it
+  projected: number;
+  low: number;
+  high: number;
+};
+
+export type CategoryForecast = ForecastLine & {
+  category: string;
+  // This month's share of the category's budget, if it has one
+  limit: number | null;
+};
+
+export type UpcomingItem = {
+  date: Date;
+  category: string;
+  // In the home currency
+  amount: number;
+};
+
+export type SpendingForecast = {
+  start: Date;
+  // Start of next month, exclusive
+  end: Date;
+  now: Date;
+  total: ForecastLine & { limit: number | null };
+  categories: CategoryForecast[];
+  // Expected spending per day for the rest of the month, besides the
+  // recurring items
+  dailyRate: number;
+  // Half the width of the band, for the month as a whole
+  spread: number;
+  upcoming: UpcomingItem[];
+};
+
+export type ForecastInput = {
+  // Category lines in the home currency
+  lines: Expense[];
+  recurring: RecurringTemplate[];
+  budgets: Budget[];
+  toHomeCurrency: (amount: number, currency: string) => number;
+  now?: Date;
+};
+
+// Recurring entries are forecast from their templates, so only the rest
+// is extrapolated
+const isDiscretionary = (expense: Expense) =>
+  expense.kind === "expense" && !expense.recurringId;
+
+const spentBetween = (expenses: Expense[], start: number, end: number) =>
+  sum(
+    expenses
+      .filter((expense) => {
+        const time = new Date(expense.date).getTime();
+        return time >= start && time < end;
+      })
+      .map((expense) => expense.amount)
+  );
+
+// Forecast one category's discretionary spending for the rest of the
+// month. Early on, it leans on how earlier months ended; as the month goes
+// by, on the pace so far. The same month last year adjusts for seasons.
+const forecastRemainder = (
+  expenses: Expense[],
+  now: Date,
+  firstMonth: Date
+) => {
+  const start = monthStart(now);
+  const end = monthStart(now, 1);
+  const elapsed =
+    (now.getTime() - start.getTime()) / (end.getTime() - start.getTime());
+  const remainingDays = (end.getTime() - now.getTime()) / DAY;
+  const elapsedDays = Math.max(1, (now.getTime() - start.getTime()) / DAY);
+
+  const spent = spentBetween(expenses, start.getTime(), now.getTime());
+  const paceRemainder = (spent / elapsedDays) * remainingDays;
+
+  // What was spent after the same point of earlier months, scaled to the
+  // days left in this one
+  const history = Array.from({ length: 12 }, (_, i) => {
+    const from = monthStart(now, -(i + 1));
+    const to = monthStart(now, -i);
+    if (from < firstMonth) return null;
+    const span = to.getTime() - from.getTime();
+    const cutoff = from.getTime() + elapsed * span;
+    return {
+      remainder:
+        (spentBetween(expenses, cutoff, to.getTime()) /
+          (to.getTime() - cutoff)) *
+        (end.getTime() - now.getTime()),
+      total: spentBetween(expenses, from.getTime(), to.getTime()),
+    };
+  });
+  const known = history.filter(
+    (month): month is { remainder: number; total: number } => month !== null
+  );
+  const recent = known.slice(0, RECENT_MONTHS);
+
+  const sameMonthLastYear = history[11];
+  const average = sum(known.map((month) => month.total)) / known.length;
+  const seasonality =
+    sameMonthLastYear && average > 0
+      ? Math.min(
+          SEASONALITY_LIMITS[1],
+          Math.max(SEASONALITY_LIMITS[0], sameMonthLastYear.total / average)
+        )
+      : 1;
+
+  if (recent.length === 0) {
+    return { remainder: paceRemainder, spread: paceRemainder * 0.5 };
+  }
+
+  const historyRemainder =
+    (sum(recent.map((month) => month.remainder)) / recent.length) * seasonality;
+  const remainder = elapsed * paceRemainder + (1 - elapsed) * historyRemainder;
+  const spreadMonths = known.slice(0, SPREAD_MONTHS);
+  const spread =
+    spreadMonths.length >= 2
+      ? standardDeviation(spreadMonths.map((month) => month.remainder)) *
+        seasonality
+      : remainder * 0.5;
+
+  return { remainder, spread };
+};
+
+// Where spending in the current month is expected to land, per category
+// and overall
+export const getSpendingForecast = ({
+  lines,
+  recurring,
+  budgets,
+  toHomeCurrency,
+  now = new Date(),
+}: ForecastInput): SpendingForecast => {
+  const start = monthStart(now);
+  const end = monthStart(now, 1);
+  const remainingDays = (end.getTime() - now.getTime()) / DAY;
+
+  const spending = lines.filter((expense) => expense.kind === "expense");
+  const firstMonth = monthStart(
+    spending.reduce(
+      (oldest, expense) =>
+        new Date(expense.date) < oldest ? new Date(expense.date) : oldest,
+      now
+    )
+  );
+
+  const upcoming: UpcomingItem[] = recurring
+    .filter(
+      (template) => template.kind === "expense" && isActiveTemplate(template)
+    )
+    .flatMap((template) =>
+      getOccurrencesBetween(template, now, new Date(end.getTime() - 1)).map(
+        (date) => ({
+          date,
+          category: template.category,
+          amount: toHomeCurrency(template.amount, template.currency),
+        })
+      )
+    );
+
+  const names = Array.from(
+    new Set([
+      ...spending
+        .filter((expense) => new Date(expense.date) >= monthStart(now, -12))
+        .map((expense) => expense.category),
+      ...upcoming.map((item) => item.category),
+      ...budgets.map((budget) => budget.category),
+    ])
+  );
+
+  let dailyRate = 0;
+  let variance = 0;
+  const categories = names
+    .map((category): CategoryForecast => {
+      const own = spending.filter((expense) => expense.category === category);
+      const spent = spentBetween(own, start.getTime(), now.getTime());
+      const { remainder, spread } = forecastRemainder(
+        own.filter(isDiscretionary),
+        now,
+        firstMonth
+      );
+      const known = sum(
+        upcoming
+          .filter((item) => item.category === category)
+          .map((item) => item.amount)
+      );
+      const budget = budgets.find((b) => b.category === category);
+
+      dailyRate += remainder / Math.max(remainingDays, 1 / 24);
+      variance += spread ** 2;
+
+      const projected = spent + known + remainder;
+      return {
+        category,
+        spent,
+        recurring: known,
+        projected,
+        low: Math.max(spent + known, projected - BAND_Z * spread),
+        high: projected + BAND_Z * spread,
+        limit: budget ? getLimitBetween(budget, start, end) : null,
+      };
+    })
+    .filter((line) => line.projected > 0 || line.limit !== null)
+    .sort((a, b) => b.projected - a.projected);
+
+  const spread = BAND_Z * Math.sqrt(variance);
+  const spent = sum(categories.map((line) => line.spent));
+  const known = sum(categories.map((line) => line.recurring));
+  const projected = sum(categories.map((line) => line.projected));
+
+  return {
+    start,
+    end,
+    now,
+    total: {
+      spent,
+      recurring: known,
+      projected,
+      low: Math.max(spent + known, projected - spread),
+      high: projected + spread,
+      limit:
+        budgets.length > 0
+          ? sum(budgets.map((budget) => getLimitBetween(budget, start, end)))
+          : null,
+    },
+    categories,
+    dailyRate,
+    spread,
+    upcoming,
+  };
+};
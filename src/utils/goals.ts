@@ -0,0 +1,144 @@
+import type { ExchangeRates, Expense, SavingsGoal } from "../types";
+import { convert } from "./currency";
+import { DAY } from "./dates";
+
+// Contributions from this many days back set the pace of a goal
+export const PACE_WINDOW_DAYS = 90;
+
+const AVERAGE_MONTH_DAYS = 365.25 / 12;
+
+export type GoalContributionSource = "manual" | "income" | "transfer";
+
+// A contribution from any source, in the goal's currency
+export type GoalEntry = {
+  id: string;
+  source: GoalContributionSource;
+  amount: number;
+  date: string;
+};
+
+export type GoalProgress = {
+  saved: number;
+  remaining: number;
+  // Share of the target saved, from 0 to 1
+  progress: number;
+  // Needed each month to reach the target by the deadline. null without a
+  // deadline or once the target is reached.
+  requiredMonthly: number | null;
+  // Average saved per month over the pace window
+  monthlyPace: number;
+  // When the target is reached at that pace. null if nothing is being
+  // saved, or the target is already reached.
+  projectedCompletion: Date | null;
+  complete: boolean;
+  // Whether the projection reaches the target by the deadline
+  onTrack: boolean;
+};
+
+// Every contribution to a goal: the ones logged by hand, the share of
+// income set aside automatically, and transfers in and out of its account
+export const getGoalEntries = (
+  goal: SavingsGoal,
+  expenses: Expense[],
+  exchangeRates: ExchangeRates
+): GoalEntry[] => {
+  const since = new Date(goal.createdAt).getTime();
+  const toGoalCurrency = (expense: Expense) =>
+    convert(expense.amount, expense.currency, goal.currency, exchangeRates);
+
+  const automatic = expenses
+    .filter((expense) => new Date(expense.date).getTime() >= since)
+    .flatMap((expense): GoalEntry[] => {
+      if (expense.kind === "income" && goal.autoAllocatePercent > 0) {
+        return [
+          {
+            id: expense.id,
+            source: "income",
+            amount: (toGoalCurrency(expense) * goal.autoAllocatePercent) / 100,
+            date: expense.date,
+          },
+        ];
+      }
+      if (expense.kind === "transfer" && goal.accountId) {
+        const sign =
+          expense.toAccountId === goal.accountId
+            ? 1
+            : expense.accountId === goal.accountId
+            ? -1
+            : 0;
+        if (sign !== 0) {
+          return [
+            {
+              id: expense.id,
+              source: "transfer",
+              amount: sign * toGoalCurrency(expense),
+              date: expense.date,
+            },
+          ];
+        }
+      }
+      return [];
+    });
+
+  return [
+    ...goal.contributions.map(
+      (contribution): GoalEntry => ({ ...contribution, source: "manual" })
+    ),
+    ...automatic,
+  ].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+};
+
+// Months from `from` to `to`, in fractions of an average month
+const monthsBetween = (from: Date, to: Date) =>
+  (to.getTime() - from.getTime()) / (AVERAGE_MONTH_DAYS * DAY);
+
+export const getGoalProgress = (
+  goal: SavingsGoal,
+  entries: GoalEntry[],
+  now = new Date()
+): GoalProgress => {
+  const saved = Math.max(
+    0,
+    entries.reduce((sum, entry) => sum + entry.amount, 0)
+  );
+  const remaining = Math.max(0, goal.target - saved);
+  const complete = Math.round(remaining * 100) === 0;
+
+  // A goal younger than the window is paced over its own age, but at least
+  // a month so one early contribution doesn't look like a huge pace
+  const windowStart = new Date(now.getTime() - PACE_WINDOW_DAYS * DAY);
+  const paceStart = new Date(
+    Math.max(windowStart.getTime(), new Date(goal.createdAt).getTime())
+  );
+  const recent = entries
+    .filter((entry) => new Date(entry.date) >= paceStart)
+    .reduce((sum, entry) => sum + entry.amount, 0);
+  const monthlyPace = recent / Math.max(1, monthsBetween(paceStart, now));
+
+  const projectedCompletion =
+    complete || monthlyPace <= 0
+      ? null
+      : new Date(
+          now.getTime() + (remaining / monthlyPace) * AVERAGE_MONTH_DAYS * DAY
+        );
+
+  const deadline = goal.deadline ? new Date(goal.deadline) : null;
+  // Past the deadline, everything that's left is due now
+  const requiredMonthly =
+    !deadline || complete
+      ? null
+      : remaining / Math.max(1, monthsBetween(now, deadline));
+
+  return {
+    saved,
+    remaining,
+    progress: goal.target > 0 ? Math.min(1, saved / goal.target) : 1,
+    requiredMonthly,
+    monthlyPace,
+    projectedCompletion,
+    complete,
+    onTrack:
+      complete ||
+      (!!projectedCompletion && (!deadline || projectedCompletion <= deadline)),
+  };
+};
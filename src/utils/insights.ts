@@ -0,0 +1,401 @@
+import type { Budget, Expense, ExpenseFilter } from "../types";
+import { getBudgetSpent, getPeriodStart } from "./budget";
+import { formatMoney } from "./currency";
+import { toDateInputValue } from "./dateRange";
+import { DAY, monthStart } from "./dates";
+import { mean, standardDeviation, sum } from "./stats";
+
+export type InsightKind =
+  | "budgetOverrun"
+  | "unusual"
+  | "spike"
+  | "monthChange"
+  | "dormantSubscription";
+
+export type Insight = {
+  id: string;
+  kind: InsightKind;
+  title: string;
+  explanation: string;
+  // Higher is more important; insights are shown in this order
+  score: number;
+  // What the transaction list should show to explain the insight. Dates
+  // are "YYYY-MM-DD" and inclusive, like the custom period.
+  link: {
+    filter: Partial<ExpenseFilter>;
+    start: string;
+    end: string;
+  };
+};
+
+// Everything is in one currency: the home currency
+export type InsightInput = {
+  // Whole entries, for looking at individual transactions
+  expenses: Expense[];
+  // Category lines, for totals by category
+  lines: Expense[];
+  budgets: Budget[];
+  currency: string;
+  now?: Date;
+};
+
+// An amount this many standard deviations above a category's usual amount
+// is unusual
+const UNUSUAL_DEVIATIONS = 3;
+// Transactions this recent are checked for being unusual
+const UNUSUAL_WINDOW_DAYS = 30;
+// A category needs this many earlier transactions before any is unusual
+const MIN_HISTORY = 5;
+// Months averaged to find a category's usual monthly spending
+const TRAILING_MONTHS = 3;
+// Spending this many times the trailing average is a spike
+const SPIKE_RATIO = 1.5;
+// Month-over-month changes smaller than this share of last month's total
+// spending aren't worth mentioning
+const MIN_CHANGE_SHARE = 0.05;
+// A subscription that missed this many of its usual intervals is dormant
+const DORMANT_INTERVALS = 2;
+
+const isSpending = (expense: Expense) => expense.kind === "expense";
+
+const total = (expenses: Expense[]) =>
+  sum(expenses.map((expense) => expense.amount));
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// The last day of the month, as an inclusive end date
+const monthEnd = (date: Date, offset = 0) =>
+  new Date(date.getFullYear(), date.getMonth() + offset + 1, 0);
+
+const between = (expenses: Expense[], start: Date, end: Date) =>
+  expenses.filter((expense) => {
+    const time = new Date(expense.date).getTime();
+    return time >= start.getTime() && time < end.getTime();
+  });
+
+const byCategory = (expenses: Expense[]) => {
+  const groups = new Map<string, Expense[]>();
+  expenses.forEach((expense) => {
+    groups.set(expense.category, [
+      ...(groups.get(expense.category) || []),
+      expense,
+    ]);
+  });
+  return groups;
+};
+
+const percent = (ratio: number) => `${Math.round(ratio * 100)}%`;
+
+// Budgets on course to end the period over their limit, at the pace of
+// spending so far
+const findBudgetOverruns = (
+  { lines, budgets, currency }: InsightInput,
+  now: Date
+): Insight[] =>
+  budgets.flatMap((budget) => {
+    const start = getPeriodStart(budget.period, now);
+    const end =
+      budget.period === "weekly"
+        ? new Date(start.getFullYear(), start.getMonth(), start.getDate() + 7)
+        : monthStart(now, 1);
+    const elapsed =
+      (now.getTime() - start.getTime()) / (end.getTime() - start.getTime());
+    const spent = getBudgetSpent(budget, lines, now);
+    const projected = spent / Math.max(elapsed, 0.01);
+    if (budget.limit <= 0 || projected <= budget.limit) return [];
+
+    const over = spent > budget.limit;
+    const periodName = budget.period === "weekly" ? "week" : "month";
+    return [
+      {
+        id: `budget-${budget.category}`,
+        kind: "budgetOverrun",
+        title: over
+          ? `${budget.category} is over budget`
+          : `${budget.category} is heading over budget`,
+        explanation: over
+          ? `${formatMoney(spent, currency)} spent against a ${formatMoney(
+              budget.limit,
+              currency
+            )} limit this ${periodName}.`
+          : `${formatMoney(
+              spent,
+              currency
+            )} spent so far. At this pace the ${periodName} ends around ${formatMoney(
+              projected,
+              currency
+            )}, ${percent(projected / budget.limit - 1)} over the ${formatMoney(
+              budget.limit,
+              currency
+            )} limit.`,
+        score: 80 + Math.min(20, (projected / budget.limit - 1) * 20),
+        link: {
+          filter: { category: budget.category },
+          start: toDateInputValue(start),
+          end: toDateInputValue(now),
+        },
+      },
+    ];
+  });
+
+// Recent transactions far above what is usual for their category
+const findUnusualTransactions = (
+  { expenses, currency }: InsightInput,
+  now: Date
+): Insight[] => {
+  const since = now.getTime() - UNUSUAL_WINDOW_DAYS * DAY;
+
+  return Array.from(byCategory(expenses.filter(isSpending))).flatMap(
+    ([category, entries]) => {
+      const history = entries.filter(
+        (expense) => new Date(expense.date).getTime() < since
+      );
+      if (history.length < MIN_HISTORY) return [];
+
+      const amounts = history.map((expense) => expense.amount);
+      const average = mean(amounts);
+      const deviation = standardDeviation(amounts);
+      const usual = median(amounts);
+
+      return entries
+        .filter((expense) => new Date(expense.date).getTime() >= since)
+        .filter(
+          (expense) =>
+            expense.amount > average + UNUSUAL_DEVIATIONS * deviation &&
+            expense.amount > usual * 2
+        )
+        .map((expense): Insight => {
+          const deviations =
+            deviation > 0 ? (expense.amount - average) / deviation : 10;
+          const date = toDateInputValue(new Date(expense.date));
+          return {
+            id: `unusual-${expense.id}`,
+            kind: "unusual",
+            title: `Unusual ${category} transaction`,
+            explanation: `${formatMoney(expense.amount, currency)}${
+              expense.description ? ` for "${expense.description}"` : ""
+            } on ${new Date(expense.date).toLocaleDateString()} is ${(
+              expense.amount / usual
+            ).toFixed(1)}× the usual ${formatMoney(
+              usual,
+              currency
+            )} for ${category}.`,
+            score: 50 + Math.min(20, deviations * 2),
+            link: {
+              filter: {
+                category,
+                query: `=${expense.amount.toFixed(2)}`,
+              },
+              start: date,
+              end: date,
+            },
+          };
+        });
+    }
+  );
+};
+
+// Categories where this month's spending already runs well above the
+// average of the last few months
+const findCategorySpikes = (
+  { lines, currency }: InsightInput,
+  now: Date
+): Insight[] => {
+  const spending = lines.filter(isSpending);
+  const current = byCategory(between(spending, monthStart(now), now));
+  const trailing = byCategory(
+    between(spending, monthStart(now, -TRAILING_MONTHS), monthStart(now))
+  );
+
+  return Array.from(current).flatMap(([category, entries]) => {
+    const spent = total(entries);
+    const average = total(trailing.get(category) || []) / TRAILING_MONTHS;
+    if (average <= 0 || spent <= average * SPIKE_RATIO) return [];
+
+    return [
+      {
+        id: `spike-${category}`,
+        kind: "spike",
+        title: `${category} spending is up`,
+        explanation: `${formatMoney(
+          spent,
+          currency
+        )} so far this month, against a ${TRAILING_MONTHS}-month average of ${formatMoney(
+          average,
+          currency
+        )} (${(spent / average).toFixed(1)}×).`,
+        score: 40 + Math.min(20, (spent / average - 1) * 10),
+        link: {
+          filter: { category },
+          start: toDateInputValue(monthStart(now)),
+          end: toDateInputValue(now),
+        },
+      },
+    ];
+  });
+};
+
+// How last month compared with the month before, overall and for the
+// categories that moved the most
+const findMonthChanges = (
+  { lines, currency }: InsightInput,
+  now: Date
+): Insight[] => {
+  const spending = lines.filter(isSpending);
+  const lastMonth = between(spending, monthStart(now, -1), monthStart(now));
+  const monthBefore = between(
+    spending,
+    monthStart(now, -2),
+    monthStart(now, -1)
+  );
+  const lastTotal = total(lastMonth);
+  const beforeTotal = total(monthBefore);
+  if (lastTotal === 0 || beforeTotal === 0) return [];
+
+  const link = {
+    start: toDateInputValue(monthStart(now, -2)),
+    end: toDateInputValue(monthEnd(now, -1)),
+  };
+  const monthName = monthStart(now, -1).toLocaleDateString(undefined, {
+    month: "long",
+  });
+  const insights: Insight[] = [];
+
+  const totalChange = lastTotal / beforeTotal - 1;
+  if (Math.abs(totalChange) >= 0.1) {
+    insights.push({
+      id: "month-total",
+      kind: "monthChange",
+      title: `Spending ${totalChange > 0 ? "rose" : "fell"} ${percent(
+        Math.abs(totalChange)
+      )} in ${monthName}`,
+      explanation: `${formatMoney(lastTotal, currency)} in ${monthName}, ${
+        totalChange > 0 ? "up" : "down"
+      } from ${formatMoney(beforeTotal, currency)} the month before.`,
+      score: 30 + Math.min(15, Math.abs(totalChange) * 30),
+      link: { filter: {}, ...link },
+    });
+  }
+
+  const last = byCategory(lastMonth);
+  const before = byCategory(monthBefore);
+  new Set([...last.keys(), ...before.keys()]).forEach((category) => {
+    const recent = total(last.get(category) || []);
+    const previous = total(before.get(category) || []);
+    const change = recent - previous;
+    if (Math.abs(change) < lastTotal * MIN_CHANGE_SHARE) return;
+
+    insights.push({
+      id: `month-${category}`,
+      kind: "monthChange",
+      title: `${category} ${change > 0 ? "up" : "down"} ${formatMoney(
+        Math.abs(change),
+        currency
+      )} in ${monthName}`,
+      explanation: `${formatMoney(
+        recent,
+        currency
+      )} in ${monthName} against ${formatMoney(
+        previous,
+        currency
+      )} the month before${
+        previous > 0
+          ? ` (${change > 0 ? "+" : "−"}${percent(
+              Math.abs(change) / previous
+            )})`
+          : ""
+      }.`,
+      score: 25 + Math.min(15, (Math.abs(change) / lastTotal) * 30),
+      link: { filter: { category }, ...link },
+    });
+  });
+
+  return insights;
+};
+
+// Subscriptions that have stopped showing up: entries from the same
+// recurring template, or regular charges with the same description, e.g.
+// from imported statements. A template's entries stay together even if
+// their descriptions were edited.
+const findDormantSubscriptions = (
+  { expenses, currency }: InsightInput,
+  now: Date
+): Insight[] => {
+  const series = new Map<string, Expense[]>();
+  expenses.filter(isSpending).forEach((expense) => {
+    const description = expense.description.trim().toLowerCase();
+    if (!expense.recurringId && !description) return;
+    const key = expense.recurringId
+      ? `recurring|${expense.recurringId}`
+      : `${expense.category}|${description}`;
+    series.set(key, [...(series.get(key) || []), expense]);
+  });
+
+  return Array.from(series).flatMap(([key, entries]) => {
+    if (entries.length < 3) return [];
+
+    const times = entries
+      .map((expense) => new Date(expense.date).getTime())
+      .sort((a, b) => a - b);
+    const gaps = times.slice(1).map((time, i) => time - times[i]);
+    const interval = median(gaps);
+    // Charges at least weekly, at roughly even intervals
+    if (
+      interval < 6 * DAY ||
+      gaps.some((gap) => Math.abs(gap - interval) > interval * 0.3)
+    ) {
+      return [];
+    }
+
+    const last = times[times.length - 1];
+    if (now.getTime() - last < interval * DORMANT_INTERVALS) return [];
+
+    const latest = entries.find(
+      (expense) => new Date(expense.date).getTime() === last
+    ) as Expense;
+    const name = latest.description || latest.category;
+    const days = Math.round(interval / DAY);
+    return [
+      {
+        id: `dormant-${key}`,
+        kind: "dormantSubscription",
+        title: `${name} seems to have stopped`,
+        explanation: `Charged about every ${days} days (${formatMoney(
+          latest.amount,
+          currency
+        )}), but nothing since ${new Date(
+          last
+        ).toLocaleDateString()}. If you didn't cancel it, check for a missed payment.`,
+        score: 20 + Math.min(10, (now.getTime() - last) / interval),
+        link: {
+          filter: {
+            query: latest.description
+              ? `"${latest.description.replace(/"/g, "")}"`
+              : "",
+            category: latest.category,
+          },
+          start: toDateInputValue(new Date(times[0])),
+          end: toDateInputValue(now),
+        },
+      },
+    ];
+  });
+};
+
+// Run every rule over the data, most important insight first
+export const getInsights = (input: InsightInput): Insight[] => {
+  const now = input.now || new Date();
+  return [
+    ...findBudgetOverruns(input, now),
+    ...findUnusualTransactions(input, now),
+    ...findCategorySpikes(input, now),
+    ...findMonthChanges(input, now),
+    ...findDormantSubscriptions(input, now),
+  ].sort((a, b) => b.score - a.score);
+};
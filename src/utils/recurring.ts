@@ -0,0 +1,162 @@
+import type { Expense, RecurringTemplate } from "../types";
+import { DAY } from "./dates";
+
+// Most occurrences returned at once, so catching up on a daily template
+// left unopened for years can't run away
+const MAX_OCCURRENCES = 1000;
+
+const DAYS_PER_MONTH = 365 / 12;
+
+export const FREQUENCY_LABELS: Record<RecurringTemplate["frequency"], string> =
+  {
+    weekly: "Weekly",
+    monthly: "Monthly",
+    yearly: "Yearly",
+    custom: "Custom",
+  };
+
+// Date of the nth occurrence (0 = start date). Monthly and yearly
+// occurrences keep the start day, clamped to shorter months.
+export const getOccurrence = (template: RecurringTemplate, n: number) => {
+  const start = new Date(template.startDate);
+  const year = start.getFullYear();
+  const month = start.getMonth();
+  const day = start.getDate();
+
+  if (template.frequency === "monthly" || template.frequency === "yearly") {
+    const targetMonth = template.frequency === "monthly" ? month + n : month;
+    const targetYear = template.frequency === "yearly" ? year + n : year;
+    const lastDay = new Date(targetYear, targetMonth + 1, 0).getDate();
+    return new Date(targetYear, targetMonth, Math.min(day, lastDay));
+  }
+
+  const step = template.frequency === "weekly" ? 7 : template.interval;
+  return new Date(year, month, day + n * Math.max(1, step));
+};
+
+// Index of the first occurrence after `after`. It is estimated from the
+// time elapsed, then corrected for clamped days and daylight saving.
+const getFirstIndexAfter = (template: RecurringTemplate, after: Date) => {
+  const start = new Date(template.startDate);
+  let n = 0;
+  if (template.frequency === "monthly" || template.frequency === "yearly") {
+    const months =
+      (after.getFullYear() - start.getFullYear()) * 12 +
+      after.getMonth() -
+      start.getMonth();
+    n = template.frequency === "monthly" ? months : Math.floor(months / 12);
+  } else {
+    const step = template.frequency === "weekly" ? 7 : template.interval;
+    n = Math.floor(
+      (after.getTime() - start.getTime()) / DAY / Math.max(1, step)
+    );
+  }
+
+  n = Math.max(0, n);
+  while (n > 0 && getOccurrence(template, n - 1) > after) n--;
+  while (getOccurrence(template, n) <= after) n++;
+  return n;
+};
+
+// Occurrences after `after` (exclusive) up to `until` (inclusive), at most
+// MAX_OCCURRENCES of them
+export const getOccurrencesBetween = (
+  template: RecurringTemplate,
+  after: Date | null,
+  until: Date
+) => {
+  const end = template.endDate ? new Date(template.endDate) : null;
+  const dates: Date[] = [];
+  const first = after ? getFirstIndexAfter(template, after) : 0;
+
+  for (let n = first; n < first + MAX_OCCURRENCES; n++) {
+    const date = getOccurrence(template, n);
+    if (date > until || (end && date > end)) break;
+    dates.push(date);
+  }
+
+  return dates;
+};
+
+// Turn every occurrence that is due but not yet recorded into an expense.
+// Returns the new expenses and the templates with lastGenerated updated.
+export const materializeRecurring = (
+  templates: RecurringTemplate[],
+  now = new Date()
+) => {
+  const generated: Expense[] = [];
+
+  const updated = templates.map((template) => {
+    const dates = getOccurrencesBetween(
+      template,
+      template.lastGenerated ? new Date(template.lastGenerated) : null,
+      now
+    );
+    if (dates.length === 0) return template;
+
+    dates.forEach((date) => {
+      generated.push({
+        id: `${template.id}-${date.getTime()}`,
+        kind: template.kind,
+        amount: template.amount,
+        currency: template.currency,
+        category: template.category,
+        description: template.description,
+        date: date.toISOString(),
+        accountId: template.accountId,
+        recurringId: template.id,
+      });
+    });
+
+    return {
+      ...template,
+      lastGenerated: dates[dates.length - 1].toISOString(),
+    };
+  });
+
+  return { generated, templates: updated };
+};
+
+// Upcoming occurrences within the next `days` days, soonest first
+export const getUpcomingOccurrences = (
+  templates: RecurringTemplate[],
+  days = 30,
+  now = new Date()
+) => {
+  const until = new Date(
+    now.getFullYear(),
+    now.getMonth(),
+    now.getDate() + days
+  );
+
+  return templates
+    .flatMap((template) =>
+      getOccurrencesBetween(template, now, until).map((date) => ({
+        template,
+        date,
+      }))
+    )
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+};
+
+// Average amount per month, for comparing templates with different cycles
+export const getMonthlyAmount = (template: RecurringTemplate) => {
+  switch (template.frequency) {
+    case "weekly":
+      return (template.amount * DAYS_PER_MONTH) / 7;
+    case "yearly":
+      return template.amount / 12;
+    case "custom":
+      return (
+        (template.amount * DAYS_PER_MONTH) / Math.max(1, template.interval)
+      );
+    default:
+      return template.amount;
+  }
+};
+
+// Templates that are still running at `now`
+export const isActiveTemplate = (
+  template: RecurringTemplate,
+  now = new Date()
+) => !template.endDate || new Date(template.endDate) >= now;
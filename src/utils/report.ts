@@ -0,0 +1,288 @@
+import type { Budget, Expense } from "../types";
+import { getLimitBetween } from "./budget";
+import { getCashFlow } from "./cashFlow";
+import { formatMoney } from "./currency";
+import { isInRange } from "./dateRange";
+
+export type ReportKind = "month" | "year";
+
+export type ReportPeriod = {
+  kind: ReportKind;
+  year: number;
+  // 0-11; unused for a yearly report
+  month: number;
+};
+
+// Merchants listed in a report
+const TOP_MERCHANT_COUNT = 10;
+
+export type ReportCategory = {
+  category: string;
+  amount: number;
+  // Share of all spending in the period
+  share: number;
+  count: number;
+};
+
+export type ReportMerchant = {
+  name: string;
+  amount: number;
+  count: number;
+};
+
+export type ReportBudget = {
+  category: string;
+  // The budget's limit over the whole report period
+  limit: number;
+  spent: number;
+};
+
+export type Report = {
+  title: string;
+  range: { start: Date; end: Date };
+  currency: string;
+  income: number;
+  spending: number;
+  net: number;
+  savingsRate: number | null;
+  categories: ReportCategory[];
+  merchants: ReportMerchant[];
+  budgets: ReportBudget[];
+  // Spending per day of a month, or per month of a year
+  trend: { label: string; amount: number }[];
+};
+
+export type ReportInput = {
+  // Whole entries and category lines, both in the home currency
+  expenses: Expense[];
+  lines: Expense[];
+  budgets: Budget[];
+  currency: string;
+  period: ReportPeriod;
+};
+
+export const getReportRange = ({ kind, year, month }: ReportPeriod) =>
+  kind === "year"
+    ? { start: new Date(year, 0, 1), end: new Date(year + 1, 0, 1) }
+    : { start: new Date(year, month, 1), end: new Date(year, month + 1, 1) };
+
+export const getReportTitle = (period: ReportPeriod) =>
+  period.kind === "year"
+    ? `${period.year} Annual Report`
+    : `${new Date(period.year, period.month, 1).toLocaleDateString(undefined, {
+        month: "long",
+        year: "numeric",
+      })} Monthly Report`;
+
+export const getReport = ({
+  expenses,
+  lines,
+  budgets,
+  currency,
+  period,
+}: ReportInput): Report => {
+  const range = getReportRange(period);
+  const inPeriod = lines.filter((line) => isInRange(line.date, range));
+  const spendingLines = inPeriod.filter((line) => line.kind === "expense");
+  const cashFlow = getCashFlow(inPeriod);
+
+  const byCategory = new Map<string, ReportCategory>();
+  spendingLines.forEach((line) => {
+    const entry = byCategory.get(line.category) || {
+      category: line.category,
+      amount: 0,
+      share: 0,
+      count: 0,
+    };
+    entry.amount += line.amount;
+    entry.count += 1;
+    byCategory.set(line.category, entry);
+  });
+  const categories = Array.from(byCategory.values())
+    .map((entry) => ({
+      ...entry,
+      share: cashFlow.spending > 0 ? entry.amount / cashFlow.spending : 0,
+    }))
+    .sort((a, b) => b.amount - a.amount);
+
+  // Merchants are the descriptions of whole entries, matched regardless of
+  // case and spacing
+  const byMerchant = new Map<string, ReportMerchant>();
+  expenses
+    .filter(
+      (expense) =>
+        expense.kind === "expense" &&
+        expense.description.trim() &&
+        isInRange(expense.date, range)
+    )
+    .forEach((expense) => {
+      const name = expense.description.trim().replace(/\s+/g, " ");
+      const key = name.toLowerCase();
+      const entry = byMerchant.get(key) || { name, amount: 0, count: 0 };
+      entry.amount += expense.amount;
+      entry.count += 1;
+      byMerchant.set(key, entry);
+    });
+  const merchants = Array.from(byMerchant.values())
+    .sort((a, b) => b.amount - a.amount)
+    .slice(0, TOP_MERCHANT_COUNT);
+
+  const reportBudgets = budgets.map((budget) => ({
+    category: budget.category,
+    limit: getLimitBetween(budget, range.start, range.end),
+    spent: byCategory.get(budget.category)?.amount || 0,
+  }));
+
+  const trend =
+    period.kind === "year"
+      ? Array.from({ length: 12 }, (_, month) => ({
+          label: new Date(period.year, month, 1).toLocaleDateString(undefined, {
+            month: "short",
+          }),
+          amount: 0,
+        }))
+      : Array.from(
+          { length: new Date(period.year, period.month + 1, 0).getDate() },
+          (_, day) => ({ label: String(day + 1), amount: 0 })
+        );
+  spendingLines.forEach((line) => {
+    const date = new Date(line.date);
+    trend[
+      period.kind === "year" ? date.getMonth() : date.getDate() - 1
+    ].amount += line.amount;
+  });
+
+  return {
+    title: getReportTitle(period),
+    range,
+    currency,
+    income: cashFlow.income,
+    spending: cashFlow.spending,
+    net: cashFlow.net,
+    savingsRate: cashFlow.savingsRate,
+    categories,
+    merchants,
+    budgets: reportBudgets,
+    trend,
+  };
+};
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+export const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+const table = (headers: string[], rows: string[][]) =>
+  rows.length === 0
+    ? '<p class="muted">Nothing to show for this period.</p>'
+    : `<table><thead><tr>${headers
+        .map((header) => `<th>${escapeHtml(header)}</th>`)
+        .join("")}</tr></thead><tbody>${rows
+        .map(
+          (row) =>
+            `<tr>${row
+              .map((cell) => `<td>${escapeHtml(cell)}</td>`)
+              .join("")}</tr>`
+        )
+        .join("")}</tbody></table>`;
+
+// A self-contained HTML page for the report. Charts are passed in as images
+// taken from the rendered canvases.
+export const renderReportHtml = (
+  report: Report,
+  charts: { title: string; image: string }[]
+) => {
+  const money = (amount: number) => formatMoney(amount, report.currency);
+  const lastDay = new Date(report.range.end.getTime() - 1);
+
+  const sections = [
+    `<section><h2>Summary</h2>${table(
+      ["Income", "Spending", "Net", "Savings rate"],
+      [
+        [
+          money(report.income),
+          money(report.spending),
+          money(report.net),
+          report.savingsRate === null ? "—" : formatPercent(report.savingsRate),
+        ],
+      ]
+    )}</section>`,
+    charts.length > 0
+      ? `<section class="charts">${charts
+          .map(
+            (chart) =>
+              `<figure><figcaption>${escapeHtml(
+                chart.title
+              )}</figcaption><img src="${escapeHtml(
+                chart.image
+              )}" alt="${escapeHtml(chart.title)}"></figure>`
+          )
+          .join("")}</section>`
+      : "",
+    `<section><h2>Category Breakdown</h2>${table(
+      ["Category", "Entries", "Amount", "Share"],
+      report.categories.map((entry) => [
+        entry.category,
+        String(entry.count),
+        money(entry.amount),
+        formatPercent(entry.share),
+      ])
+    )}</section>`,
+    `<section><h2>Top Merchants</h2>${table(
+      ["Merchant", "Entries", "Amount"],
+      report.merchants.map((merchant) => [
+        merchant.name,
+        String(merchant.count),
+        money(merchant.amount),
+      ])
+    )}</section>`,
+    report.budgets.length > 0
+      ? `<section><h2>Budget vs. Actual</h2>${table(
+          ["Category", "Budget", "Actual", "Difference"],
+          report.budgets.map((budget) => [
+            budget.category,
+            money(budget.limit),
+            money(budget.spent),
+            money(budget.limit - budget.spent),
+          ])
+        )}</section>`
+      : "",
+  ];
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(report.title)}</title>
+<style>
+body { font-family: system-ui, sans-serif; color: #111827; max-width: 800px; margin: 2rem auto; padding: 0 1rem; }
+h1 { margin-bottom: 0.25rem; }
+h2 { font-size: 1.1rem; margin-top: 2rem; }
+.muted { color: #6b7280; }
+table { width: 100%; border-collapse: collapse; font-size: 0.9rem; }
+th, td { text-align: left; padding: 0.4rem 0.5rem; border-bottom: 1px solid #e5e7eb; }
+th:not(:first-child), td:not(:first-child) { text-align: right; }
+.charts { display: flex; flex-wrap: wrap; gap: 1rem; }
+figure { flex: 1 1 320px; margin: 0; }
+figcaption { font-weight: 600; margin-bottom: 0.5rem; }
+img { max-width: 100%; }
+h2 { break-after: avoid; }
+tr, .charts { break-inside: avoid; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(report.title)}</h1>
+<p class="muted">${escapeHtml(
+    `${report.range.start.toLocaleDateString()} – ${lastDay.toLocaleDateString()} · Amounts in ${
+      report.currency
+    }`
+  )}</p>
+${sections.filter(Boolean).join("\n")}
+</body>
+</html>
+`;
+};
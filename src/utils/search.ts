@@ -0,0 +1,168 @@
+import type { Expense, ExpenseFilter, SortOrder } from "../types";
+
+export const EMPTY_FILTER: ExpenseFilter = {
+  query: "",
+  category: "",
+  tag: "",
+  minAmount: "",
+  maxAmount: "",
+};
+
+export const SORT_LABELS: Record<SortOrder, string> = {
+  newest: "Newest first",
+  oldest: "Oldest first",
+  largest: "Largest first",
+  smallest: "Smallest first",
+};
+
+type Comparison = ">" | ">=" | "<" | "<=" | "=";
+
+type SearchTerm =
+  | { type: "text"; value: string }
+  | { type: "amount"; comparison: Comparison; value: number }
+  | { type: "category" | "tag" | "account" | "kind"; value: string };
+
+// What matching needs beyond the entry itself
+export type MatchContext = {
+  // Amount in the home currency, so amounts in different currencies compare
+  getAmount: (expense: Expense) => number;
+  getAccountName: (id?: string) => string;
+};
+
+const FIELDS: Record<string, SearchTerm["type"]> = {
+  category: "category",
+  cat: "category",
+  tag: "tag",
+  account: "account",
+  type: "kind",
+};
+
+export const isFilterActive = (filter: ExpenseFilter) =>
+  Object.values(filter).some((value) => value.trim() !== "");
+
+// Split on spaces, keeping quoted phrases like category:"Food & Dining"
+// together
+const tokenize = (query: string) =>
+  (query.match(/(?:[^\s"]+|"[^"]*")+/g) || []).map((token) =>
+    token.replace(/"/g, "")
+  );
+
+// Understands plain words, amounts like ">50" or "<=20.5", "field:value"
+// for category, tag, account and type, and "#tag". Every term has to match.
+export const parseQuery = (query: string): SearchTerm[] =>
+  tokenize(query)
+    .filter((token) => token !== "")
+    .map((token): SearchTerm => {
+      const amount = token.match(/^(>=|<=|>|<|=)(\d+(?:\.\d+)?)$/);
+      if (amount) {
+        return {
+          type: "amount",
+          comparison: amount[1] as Comparison,
+          value: parseFloat(amount[2]),
+        };
+      }
+
+      if (token.startsWith("#") && token.length > 1) {
+        return { type: "tag", value: token.slice(1).toLowerCase() };
+      }
+
+      const field = token.match(/^(\w+):(.+)$/);
+      if (field && FIELDS[field[1].toLowerCase()]) {
+        return {
+          type: FIELDS[field[1].toLowerCase()],
+          value: field[2].toLowerCase(),
+        } as SearchTerm;
+      }
+
+      return { type: "text", value: token.toLowerCase() };
+    });
+
+const compare = (amount: number, comparison: Comparison, value: number) => {
+  // Amounts compare in cents, so "=12.5" matches 12.499999...
+  const cents = Math.round(amount * 100);
+  const target = Math.round(value * 100);
+  if (comparison === ">") return cents > target;
+  if (comparison === ">=") return cents >= target;
+  if (comparison === "<") return cents < target;
+  if (comparison === "<=") return cents <= target;
+  return cents === target;
+};
+
+// Categories of an entry, including the lines of a split
+const getCategories = (expense: Expense) =>
+  expense.splits
+    ? expense.splits.map((split) => split.category)
+    : [expense.category];
+
+const matchesTerm = (
+  expense: Expense,
+  term: SearchTerm,
+  context: MatchContext
+) => {
+  const categories = getCategories(expense).map((c) => c.toLowerCase());
+  const tags = (expense.tags || []).map((tag) => tag.toLowerCase());
+
+  switch (term.type) {
+    case "amount":
+      return compare(context.getAmount(expense), term.comparison, term.value);
+    case "category":
+      return categories.some((category) => category.includes(term.value));
+    case "tag":
+      return tags.includes(term.value);
+    case "account":
+      return [expense.accountId, expense.toAccountId].some(
+        (id) =>
+          id !== undefined &&
+          context.getAccountName(id).toLowerCase().includes(term.value)
+      );
+    case "kind":
+      return expense.kind === term.value;
+    case "text":
+      return [
+        expense.description,
+        ...categories,
+        ...tags,
+        expense.amount.toFixed(2),
+      ].some((value) => value.toLowerCase().includes(term.value));
+  }
+};
+
+export const createMatcher = (filter: ExpenseFilter, context: MatchContext) => {
+  const terms = parseQuery(filter.query);
+  const minAmount = parseFloat(filter.minAmount);
+  const maxAmount = parseFloat(filter.maxAmount);
+
+  return (expense: Expense) =>
+    (!filter.category || getCategories(expense).includes(filter.category)) &&
+    (!filter.tag || (expense.tags || []).includes(filter.tag)) &&
+    (isNaN(minAmount) ||
+      compare(context.getAmount(expense), ">=", minAmount)) &&
+    (isNaN(maxAmount) ||
+      compare(context.getAmount(expense), "<=", maxAmount)) &&
+    terms.every((term) => matchesTerm(expense, term, context));
+};
+
+export const getSortComparator =
+  (order: SortOrder, getAmount: (expense: Expense) => number) =>
+  (a: Expense, b: Expense) => {
+    if (order === "largest") return getAmount(b) - getAmount(a);
+    if (order === "smallest") return getAmount(a) - getAmount(b);
+    const byDate = new Date(b.date).getTime() - new Date(a.date).getTime();
+    return order === "oldest" ? -byDate : byDate;
+  };
+
+// Tags typed as "trip, work food": commas or spaces separate them
+export const parseTags = (input: string) =>
+  Array.from(
+    new Set(
+      input
+        .split(/[,\s]+/)
+        .map((tag) => tag.replace(/^#/, "").trim())
+        .filter(Boolean)
+    )
+  );
+
+export const getAllTags = (expenses: Expense[]) =>
+  Array.from(new Set(expenses.flatMap((expense) => expense.tags || []))).sort(
+    (a, b) => a.localeCompare(b)
+  );
@@ -0,0 +1,29 @@
+import type { Expense, Split } from "../types";
+
+export const getSplitTotal = (splits: Split[]) =>
+  splits.reduce((sum, split) => sum + split.amount, 0);
+
+// Compared in cents, so sums like 0.1 + 0.2 still match
+export const splitsMatchTotal = (splits: Split[], total: number) =>
+  Math.round(getSplitTotal(splits) * 100) === Math.round(total * 100);
+
+// Category of the largest line, which the parent transaction is filed under
+export const getMainCategory = (splits: Split[]) =>
+  splits.reduce((largest, split) =>
+    split.amount > largest.amount ? split : largest
+  ).category;
+
+// One entry per category line. A split transaction becomes one entry per
+// line, sharing the parent's id, so category totals, budgets and charts can
+// treat the lines like any other entry.
+export const toCategoryLines = (expenses: Expense[]): Expense[] =>
+  expenses.flatMap((expense) =>
+    expense.splits && expense.splits.length > 0
+      ? expense.splits.map((split) => ({
+          ...expense,
+          category: split.category,
+          amount: split.amount,
+          splits: undefined,
+        }))
+      : [expense]
+  );
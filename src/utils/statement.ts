@@ -0,0 +1,105 @@
+import { parseAmount, parseDate, toCalendarDate } from "./csv";
+
+export type StatementTransaction = {
+  date: Date;
+  // Negative for money going out, positive for money coming in
+  amount: number;
+  payee: string;
+  memo: string;
+  // Currency code from the file, or "" when it does not say (QIF)
+  currency: string;
+  // Category from the file, if it has one (QIF only)
+  category: string;
+  isTransfer: boolean;
+};
+
+// Value of an OFX element. Works for both SGML (OFX 1.x, no closing tags)
+// and XML (OFX 2.x) files.
+const getOfxValue = (block: string, tag: string) => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"));
+  return match ? match[1].trim() : "";
+};
+
+// OFX dates look like YYYYMMDD[HHMMSS[.XXX]][[offset:TZ]]
+const parseOfxDate = (value: string) => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) return null;
+  return toCalendarDate(Number(match[1]), Number(match[2]), Number(match[3]));
+};
+
+export const parseOfx = (text: string) => {
+  const transactions: StatementTransaction[] = [];
+  // The statement's default currency applies to every transaction in it
+  const currency = getOfxValue(text, "CURDEF").toUpperCase();
+  const blocks = text.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi) || [];
+
+  blocks.forEach((block) => {
+    const date = parseOfxDate(getOfxValue(block, "DTPOSTED"));
+    const amount = parseAmount(getOfxValue(block, "TRNAMT"));
+    if (!date || isNaN(amount)) return;
+
+    const payee = getOfxValue(block, "NAME") || getOfxValue(block, "PAYEE");
+    transactions.push({
+      date,
+      amount,
+      payee,
+      memo: getOfxValue(block, "MEMO"),
+      currency,
+      category: "",
+      isTransfer:
+        getOfxValue(block, "TRNTYPE").toUpperCase() === "XFER" ||
+        /transfer/i.test(payee),
+    });
+  });
+
+  return transactions;
+};
+
+// QIF dates come as M/D/YY, M/D'YY or M/D/YYYY
+const parseQifDate = (value: string) =>
+  parseDate(value.replace("'", "/").replace(/\s/g, ""));
+
+export const parseQif = (text: string) => {
+  const transactions: StatementTransaction[] = [];
+  let record: Record<string, string> = {};
+
+  text.split(/\r?\n/).forEach((rawLine) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("!")) return;
+
+    if (line === "^") {
+      const date = parseQifDate(record.D || "");
+      const amount = parseAmount(record.T || record.U || "");
+      if (date && !isNaN(amount)) {
+        // Transfers are written as a category in brackets: L[Savings]
+        const category = record.L || "";
+        transactions.push({
+          date,
+          amount,
+          payee: record.P || "",
+          memo: record.M || "",
+          currency: "",
+          category: category.startsWith("[") ? "" : category,
+          isTransfer:
+            category.startsWith("[") || /transfer/i.test(record.P || ""),
+        });
+      }
+      record = {};
+      return;
+    }
+
+    // Split lines (S, E, $) describe a single transaction's parts; only
+    // the first value of each code is kept
+    const code = line[0];
+    if (!(code in record)) record[code] = line.slice(1).trim();
+  });
+
+  return transactions;
+};
+
+export const parseStatement = (fileName: string, text: string) => {
+  if (/\.qif$/i.test(fileName) || /^\s*!Type:/i.test(text)) {
+    return parseQif(text);
+  }
+  return parseOfx(text);
+};
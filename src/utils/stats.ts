@@ -0,0 +1,9 @@
+export const sum = (values: number[]) =>
+  values.reduce((total, value) => total + value, 0);
+
+export const mean = (values: number[]) => sum(values) / values.length;
+
+export const standardDeviation = (values: number[]) => {
+  const average = mean(values);
+  return Math.sqrt(mean(values.map((value) => (value - average) ** 2)));
+};
@@ -0,0 +1,889 @@
+import type {
+  Account,
+  Attachment,
+  Budget,
+  Category,
+  EnvelopeMove,
+  ExchangeRates,
+  Expense,
+  ExpenseFilter,
+  FilterPreset,
+  GoalContribution,
+  RecurringTemplate,
+  SavingsGoal,
+  Split,
+} from "../types";
+import { DEFAULT_ACCOUNT_ID, createDefaultAccount } from "./accounts";
+import { pruneAttachments, resealAttachments } from "./attachments";
+import { DEFAULT_CATEGORIES } from "./categories";
+import { DEFAULT_CURRENCY, DEFAULT_RATES } from "./currency";
+import { isInRange, type DateRange } from "./dateRange";
+import { splitsMatchTotal } from "./splits";
+import {
+  applyChanges,
+  applyListChanges,
+  getChanges,
+  getExpenseKey,
+  isEmptyChangeSet,
+  type ChangeSet,
+} from "./changes";
+import {
+  openDatabase,
+  queryDatabase,
+  readDatabase,
+  readMeta,
+  writeChanges,
+  writeDatabase,
+} from "./db";
+import {
+  cancelVaultChange,
+  commitVaultChange,
+  isVaultEnabled,
+  isVaultLocked,
+  lockVault,
+  seal,
+  startVaultChange,
+  unseal,
+  type Sealed,
+} from "./vault";
+
+// Bump this and add a migration whenever the shape of AppData changes
+export const SCHEMA_VERSION = 3;
+
+const STORAGE_KEY = "financeTrackerData";
+const QUARANTINE_KEY = "financeTrackerQuarantine";
+
+// Keys written one value at a time before the versioned store existed.
+// Their contents are treated as schema version 0.
+const LEGACY_KEYS = {
+  expenses: "financeTrackerExpenses",
+  budgets: "financeTrackerBudgets",
+  recurring: "financeTrackerRecurring",
+  categories: "financeTrackerCategories",
+  homeCurrency: "financeTrackerHomeCurrency",
+  exchangeRates: "financeTrackerRates",
+  gameRewards: "financeGameRewards",
+  gameHighScore: "financeGameHighScore",
+  darkMode: "financeTrackerDarkMode",
+};
+
+export type AppData = {
+  expenses: Expense[];
+  budgets: Budget[];
+  recurring: RecurringTemplate[];
+  categories: Category[];
+  accounts: Account[];
+  goals: SavingsGoal[];
+  envelopeMoves: EnvelopeMove[];
+  homeCurrency: string;
+  exchangeRates: ExchangeRates;
+  filterPresets: FilterPreset[];
+  // Start of the first month tracked in envelope mode; null while it is off
+  envelopeSince: string | null;
+  gameRewards: number;
+  gameHighScore: number;
+  // null until the user picks a theme, so the system preference applies
+  darkMode: boolean | null;
+};
+
+// Data that could not be read, kept so it can be exported and fixed by hand
+export type QuarantineEntry = {
+  quarantinedAt: string;
+  // Where the value came from, e.g. "expenses[3]" or a storage key
+  source: string;
+  reason: string;
+  value: unknown;
+};
+
+type SetAside = (source: string, reason: string, value: unknown) => void;
+
+type RawData = Record<string, unknown>;
+
+// Fill in fields missing from the records of a list
+const withDefaults = (value: unknown, defaults: RawData) =>
+  Array.isArray(value)
+    ? value.map((item) => (isRecord(item) ? { ...defaults, ...item } : item))
+    : value;
+
+// MIGRATIONS[n] upgrades data from version n to n + 1. Migrations only
+// reshape data; validation happens once the latest version is reached.
+const MIGRATIONS: ((data: RawData, setAside: SetAside) => RawData)[] = [
+  // 0 -> 1: one document instead of a key per value. Values were stored as
+  // strings, and older entries predate income, currencies and budget periods.
+  (data, setAside) => {
+    const parseJson = (field: string) => {
+      const raw = data[field];
+      if (typeof raw !== "string") return undefined;
+      try {
+        return JSON.parse(raw);
+      } catch {
+        setAside(field, "Not valid JSON", raw);
+        return undefined;
+      }
+    };
+
+    const parseNumber = (field: string) => {
+      const raw = data[field];
+      if (typeof raw !== "string") return undefined;
+      const value = parseInt(raw);
+      return isNaN(value) ? raw : value;
+    };
+
+    return {
+      expenses: withDefaults(parseJson("expenses"), {
+        kind: "expense",
+        currency: DEFAULT_CURRENCY,
+      }),
+      budgets: withDefaults(parseJson("budgets"), { period: "monthly" }),
+      recurring: withDefaults(parseJson("recurring"), {
+        currency: DEFAULT_CURRENCY,
+      }),
+      categories: parseJson("categories"),
+      homeCurrency: data.homeCurrency,
+      exchangeRates: parseJson("exchangeRates"),
+      gameRewards: parseNumber("gameRewards"),
+      gameHighScore: parseNumber("gameHighScore"),
+      darkMode: data.darkMode === undefined ? null : data.darkMode === "true",
+    };
+  },
+  // 1 -> 2: accounts. Everything recorded so far came from one implicit
+  // pot, which becomes the default account.
+  (data) => ({
+    ...data,
+    accounts: [
+      createDefaultAccount(
+        isString(data.homeCurrency) ? data.homeCurrency : DEFAULT_CURRENCY
+      ),
+    ],
+    expenses: withDefaults(data.expenses, { accountId: DEFAULT_ACCOUNT_ID }),
+    recurring: withDefaults(data.recurring, { accountId: DEFAULT_ACCOUNT_ID }),
+  }),
+  // 2 -> 3: savings goals, saved filters and envelope mode. Some version 2
+  // data already has them, so only missing ones are filled in.
+  (data) => ({
+    goals: [],
+    filterPresets: [],
+    envelopeMoves: [],
+    envelopeSince: null,
+    ...data,
+  }),
+];
+
+export const createDefaultData = (): AppData => ({
+  expenses: [],
+  budgets: [],
+  recurring: [],
+  categories: DEFAULT_CATEGORIES,
+  accounts: [createDefaultAccount(DEFAULT_CURRENCY)],
+  goals: [],
+  envelopeMoves: [],
+  homeCurrency: DEFAULT_CURRENCY,
+  exchangeRates: DEFAULT_RATES,
+  filterPresets: [],
+  envelopeSince: null,
+  gameRewards: 0,
+  gameHighScore: 0,
+  darkMode: null,
+});
+
+const isRecord = (value: unknown): value is RawData =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isString = (value: unknown): value is string => typeof value === "string";
+
+const isAmount = (value: unknown): value is number =>
+  typeof value === "number" && isFinite(value) && value >= 0;
+
+const isDate = (value: unknown): value is string =>
+  isString(value) && !isNaN(new Date(value).getTime());
+
+const isKind = (value: unknown) => value === "expense" || value === "income";
+
+const isSplit = (value: unknown): value is Split =>
+  isRecord(value) && isString(value.category) && isAmount(value.amount);
+
+// Split lines have to add up to the transaction they belong to
+const isSplitList = (value: unknown, total: number) =>
+  Array.isArray(value) &&
+  value.every(isSplit) &&
+  splitsMatchTotal(value, total);
+
+const isAttachment = (value: unknown): value is Attachment =>
+  isRecord(value) &&
+  isString(value.id) &&
+  isString(value.name) &&
+  isString(value.type) &&
+  isAmount(value.size);
+
+// Transfers name the account they go to; nothing else does
+const isExpense = (value: unknown): value is Expense =>
+  isRecord(value) &&
+  isString(value.id) &&
+  (isKind(value.kind) || value.kind === "transfer") &&
+  isAmount(value.amount) &&
+  isString(value.currency) &&
+  isString(value.category) &&
+  isString(value.description) &&
+  isDate(value.date) &&
+  isString(value.accountId) &&
+  (value.kind === "transfer"
+    ? isString(value.toAccountId)
+    : value.toAccountId === undefined) &&
+  (value.recurringId === undefined || isString(value.recurringId)) &&
+  (value.splits === undefined || isSplitList(value.splits, value.amount)) &&
+  (value.tags === undefined ||
+    (Array.isArray(value.tags) && value.tags.every(isString))) &&
+  (value.attachments === undefined ||
+    (Array.isArray(value.attachments) &&
+      value.attachments.every(isAttachment)));
+
+const isBudget = (value: unknown): value is Budget =>
+  isRecord(value) &&
+  isString(value.category) &&
+  isAmount(value.limit) &&
+  (value.period === "weekly" || value.period === "monthly") &&
+  (value.rollover === undefined ||
+    value.rollover === "rollover" ||
+    value.rollover === "sweep");
+
+const isEnvelopeMove = (value: unknown): value is EnvelopeMove =>
+  isRecord(value) &&
+  isString(value.id) &&
+  isString(value.from) &&
+  isString(value.to) &&
+  isAmount(value.amount) &&
+  isDate(value.date);
+
+const isRecurringTemplate = (value: unknown): value is RecurringTemplate =>
+  isRecord(value) &&
+  isString(value.id) &&
+  isKind(value.kind) &&
+  isAmount(value.amount) &&
+  isString(value.currency) &&
+  isString(value.category) &&
+  isString(value.description) &&
+  isString(value.accountId) &&
+  ["weekly", "monthly", "yearly", "custom"].includes(
+    value.frequency as string
+  ) &&
+  isAmount(value.interval) &&
+  isDate(value.startDate) &&
+  (value.endDate === null || isDate(value.endDate)) &&
+  (value.lastGenerated === null || isDate(value.lastGenerated));
+
+const isCategory = (value: unknown): value is Category =>
+  isRecord(value) &&
+  isString(value.name) &&
+  isKind(value.kind) &&
+  isString(value.color) &&
+  isString(value.icon) &&
+  typeof value.archived === "boolean";
+
+const isAccount = (value: unknown): value is Account =>
+  isRecord(value) &&
+  isString(value.id) &&
+  isString(value.name) &&
+  ["cash", "checking", "savings", "credit"].includes(value.type as string) &&
+  isString(value.currency) &&
+  typeof value.openingBalance === "number" &&
+  isFinite(value.openingBalance) &&
+  (value.creditLimit === null || isAmount(value.creditLimit)) &&
+  typeof value.archived === "boolean";
+
+const isGoalContribution = (value: unknown): value is GoalContribution =>
+  isRecord(value) &&
+  isString(value.id) &&
+  isAmount(value.amount) &&
+  isDate(value.date);
+
+const isSavingsGoal = (value: unknown): value is SavingsGoal =>
+  isRecord(value) &&
+  isString(value.id) &&
+  isString(value.name) &&
+  isAmount(value.target) &&
+  isString(value.currency) &&
+  (value.deadline === null || isDate(value.deadline)) &&
+  (value.accountId === null || isString(value.accountId)) &&
+  isAmount(value.autoAllocatePercent) &&
+  value.autoAllocatePercent <= 100 &&
+  Array.isArray(value.contributions) &&
+  value.contributions.every(isGoalContribution) &&
+  isDate(value.createdAt) &&
+  typeof value.archived === "boolean";
+
+const isExpenseFilter = (value: unknown): value is ExpenseFilter =>
+  isRecord(value) &&
+  ["query", "category", "tag", "minAmount", "maxAmount"].every((field) =>
+    isString(value[field])
+  );
+
+const isFilterPreset = (value: unknown): value is FilterPreset =>
+  isRecord(value) &&
+  isString(value.name) &&
+  isExpenseFilter(value.filter) &&
+  ["newest", "oldest", "largest", "smallest"].includes(value.sort as string);
+
+const isExchangeRates = (value: unknown): value is ExchangeRates =>
+  isRecord(value) &&
+  isString(value.base) &&
+  isRecord(value.rates) &&
+  Object.values(value.rates).every(
+    (rate) => typeof rate === "number" && rate > 0
+  );
+
+// Keep the valid items of a list and set the rest aside one by one, so a
+// single bad entry doesn't cost the whole history
+const validateList = <T>(
+  data: RawData,
+  field: string,
+  isValid: (value: unknown) => value is T,
+  fallback: T[],
+  setAside: SetAside
+) => {
+  const value = data[field];
+  if (value === undefined) return fallback;
+  if (!Array.isArray(value)) {
+    setAside(field, "Expected a list", value);
+    return fallback;
+  }
+
+  return value.filter((item, index) => {
+    if (isValid(item)) return true;
+    setAside(`${field}[${index}]`, "Invalid or incomplete record", item);
+    return false;
+  });
+};
+
+const validateValue = <T>(
+  data: RawData,
+  field: string,
+  isValid: (value: unknown) => value is T,
+  fallback: T,
+  setAside: SetAside
+) => {
+  const value = data[field];
+  if (value === undefined) return fallback;
+  if (isValid(value)) return value;
+  setAside(field, "Invalid value", value);
+  return fallback;
+};
+
+const validate = (data: RawData, setAside: SetAside): AppData => {
+  const defaults = createDefaultData();
+
+  return {
+    expenses: validateList(data, "expenses", isExpense, [], setAside),
+    budgets: validateList(data, "budgets", isBudget, [], setAside),
+    recurring: validateList(
+      data,
+      "recurring",
+      isRecurringTemplate,
+      [],
+      setAside
+    ),
+    categories: validateList(
+      data,
+      "categories",
+      isCategory,
+      defaults.categories,
+      setAside
+    ),
+    accounts: validateList(
+      data,
+      "accounts",
+      isAccount,
+      defaults.accounts,
+      setAside
+    ),
+    goals: validateList(data, "goals", isSavingsGoal, [], setAside),
+    envelopeMoves: validateList(
+      data,
+      "envelopeMoves",
+      isEnvelopeMove,
+      [],
+      setAside
+    ),
+    homeCurrency: validateValue(
+      data,
+      "homeCurrency",
+      isString,
+      defaults.homeCurrency,
+      setAside
+    ),
+    exchangeRates: validateValue(
+      data,
+      "exchangeRates",
+      isExchangeRates,
+      defaults.exchangeRates,
+      setAside
+    ),
+    filterPresets: validateList(
+      data,
+      "filterPresets",
+      isFilterPreset,
+      [],
+      setAside
+    ),
+    envelopeSince: validateValue(
+      data,
+      "envelopeSince",
+      (value): value is string | null => value === null || isDate(value),
+      null,
+      setAside
+    ),
+    gameRewards: validateValue(data, "gameRewards", isAmount, 0, setAside),
+    gameHighScore: validateValue(data, "gameHighScore", isAmount, 0, setAside),
+    darkMode: validateValue(
+      data,
+      "darkMode",
+      (value): value is boolean | null =>
+        value === null || typeof value === "boolean",
+      null,
+      setAside
+    ),
+  };
+};
+
+// The quarantine holds financial data too, so it is sealed with the vault
+const readQuarantine = async (): Promise<QuarantineEntry[]> => {
+  const saved = JSON.parse(localStorage.getItem(QUARANTINE_KEY) || "[]");
+  const entries = isSealed(saved) ? await unseal(saved.sealed) : saved;
+  return Array.isArray(entries) ? entries : [];
+};
+
+const writeQuarantine = async (entries: QuarantineEntry[]) => {
+  localStorage.setItem(
+    QUARANTINE_KEY,
+    JSON.stringify(isVaultEnabled() ? { sealed: await seal(entries) } : entries)
+  );
+};
+
+export const getQuarantine = async () => {
+  try {
+    return await readQuarantine();
+  } catch {
+    return [];
+  }
+};
+
+export const clearQuarantine = () => {
+  localStorage.removeItem(QUARANTINE_KEY);
+};
+
+// Expenses as last saved, for paging when the database can't be queried
+let localExpenses: Expense[] = [];
+
+// Forget the vault key and the decrypted expenses kept for paging
+export const lockStorage = () => {
+  lockVault();
+  localExpenses = [];
+};
+
+// Set when the database opened but couldn't be read. Its contents are left
+// alone and this session falls back to localStorage.
+let databaseFailed = false;
+
+const getDatabase = async () => (databaseFailed ? null : openDatabase());
+
+// Everything except the expenses, which the database stores one by one. The
+// localStorage document has the same shape with the expenses included.
+type StoredMeta = {
+  version: number;
+  data: RawData;
+};
+
+const toMeta = (data: AppData): StoredMeta => {
+  const rest: Partial<AppData> = { ...data };
+  delete rest.expenses;
+  return { version: SCHEMA_VERSION, data: rest };
+};
+
+// With the vault on, the meta record and every expense are stored sealed.
+// Sealed expenses keep only their id, so they stay out of the indexes.
+const isSealed = (value: unknown): value is { sealed: Sealed } =>
+  isRecord(value) && isRecord(value.sealed);
+
+const sealMeta = async (meta: StoredMeta) =>
+  isVaultEnabled()
+    ? { version: meta.version, sealed: await seal(meta.data) }
+    : meta;
+
+const openMeta = async (value: unknown): Promise<StoredMeta> => {
+  if (!isRecord(value) || typeof value.version !== "number") {
+    throw new Error("Unrecognised document");
+  }
+  const data = isSealed(value) ? await unseal(value.sealed) : value.data;
+  if (!isRecord(data)) throw new Error("Unrecognised document");
+  return { version: value.version, data };
+};
+
+const sealExpense = async (expense: Expense) =>
+  isVaultEnabled() ? { id: expense.id, sealed: await seal(expense) } : expense;
+
+const writeLocalDocument = async (data: AppData) => {
+  localStorage.setItem(
+    STORAGE_KEY,
+    JSON.stringify(
+      await sealMeta({ version: SCHEMA_VERSION, data: { ...data } })
+    )
+  );
+};
+
+// Replace everything stored with `data`
+const writeAllData = async (data: AppData) => {
+  const db = await getDatabase();
+  if (db) {
+    await writeDatabase(
+      db,
+      await sealMeta(toMeta(data)),
+      await Promise.all(data.expenses.map(sealExpense))
+    );
+  } else {
+    await writeLocalDocument(data);
+  }
+  localExpenses = data.expenses;
+};
+
+const removeLocalStorageData = () => {
+  localStorage.removeItem(STORAGE_KEY);
+  Object.values(LEGACY_KEYS).forEach((key) => localStorage.removeItem(key));
+};
+
+// Tabs tell each other about the changes they save, and when the vault
+// passphrase changes
+type Message = { type: "changes"; changes: ChangeSet } | { type: "vault" };
+
+const channel =
+  typeof BroadcastChannel === "undefined"
+    ? null
+    : new BroadcastChannel("financeTracker");
+
+// Saves read what is stored before writing, so only one tab may save at a
+// time
+const withSaveLock = <T>(task: () => Promise<T>) =>
+  "locks" in navigator
+    ? navigator.locks.request("financeTrackerSave", task)
+    : task();
+
+// Save `data`, given what was saved before. Only the changes are written,
+// on top of whatever is stored now, so saves from other tabs since
+// `previous` are kept. Other tabs are then told what changed.
+export const saveData = async (previous: AppData | null, data: AppData) => {
+  const changes = previous ? getChanges(previous, data) : null;
+  if (changes && isEmptyChangeSet(changes)) return true;
+
+  try {
+    if (!changes) {
+      await writeAllData(data);
+      return true;
+    }
+
+    const db = await getDatabase();
+    await withSaveLock(async () => {
+      if (db) {
+        const saved = await readMeta(db);
+        const meta = saved
+          ? toMeta(
+              applyChanges(
+                {
+                  ...((await openMeta(saved)).data as Omit<
+                    AppData,
+                    "expenses"
+                  >),
+                  expenses: [],
+                },
+                changes
+              )
+            )
+          : toMeta(data);
+        await writeChanges(
+          db,
+          await sealMeta(meta),
+          await Promise.all(changes.expenses.put.map(sealExpense)),
+          changes.expenses.deleted
+        );
+      } else {
+        const saved = localStorage.getItem(STORAGE_KEY);
+        const stored = saved
+          ? ((await openMeta(JSON.parse(saved))).data as AppData)
+          : null;
+        await writeLocalDocument(stored ? applyChanges(stored, changes) : data);
+      }
+    });
+  } catch (error) {
+    // Usually the storage quota; keep running on the in-memory state
+    console.error("Could not save data", error);
+    return false;
+  }
+
+  localExpenses = data.expenses;
+  channel?.postMessage({ type: "changes", changes } satisfies Message);
+  return true;
+};
+
+// Listen for changes saved by other tabs. Returns an unsubscribe function.
+export const subscribeToChanges = (listener: (changes: ChangeSet) => void) => {
+  const handleMessage = (event: MessageEvent<Message>) => {
+    if (event.data.type !== "changes") return;
+    // A locked tab keeps no decrypted entries; they are read again on unlock
+    if (!isVaultLocked()) {
+      localExpenses = applyListChanges(
+        localExpenses,
+        event.data.changes.expenses,
+        getExpenseKey
+      );
+    }
+    listener(event.data.changes);
+  };
+
+  channel?.addEventListener("message", handleMessage);
+  return () => channel?.removeEventListener("message", handleMessage);
+};
+
+// Listen for another tab turning the vault on or off or changing its
+// passphrase. Any key this tab holds is stale by then.
+export const subscribeToVaultChanges = (listener: () => void) => {
+  const handleMessage = (event: MessageEvent<Message>) => {
+    if (event.data.type === "vault") listener();
+  };
+
+  channel?.addEventListener("message", handleMessage);
+  return () => channel?.removeEventListener("message", handleMessage);
+};
+
+// Turn the vault on or change its passphrase, or turn it off with null.
+// Everything stored, attachments included, is written again under the new
+// key, and only then is the new vault config saved. If a write fails,
+// whatever was written already goes back to the old key.
+export const setPassphrase = async (
+  passphrase: string | null,
+  data: AppData
+) => {
+  const quarantine = await getQuarantine();
+
+  await withSaveLock(async () => {
+    let attachmentsResealed = false;
+    try {
+      await resealAttachments(() => startVaultChange(passphrase));
+      attachmentsResealed = true;
+      await writeAllData(data);
+      if (quarantine.length > 0) await writeQuarantine(quarantine);
+      commitVaultChange();
+    } catch (error) {
+      if (attachmentsResealed) {
+        await resealAttachments(async () => cancelVaultChange());
+      } else {
+        cancelVaultChange();
+      }
+      await writeAllData(data);
+      if (quarantine.length > 0) await writeQuarantine(quarantine);
+      throw error;
+    }
+  });
+
+  channel?.postMessage({ type: "vault" } satisfies Message);
+};
+
+// The localStorage document, or the legacy keys if there isn't one yet
+const readLocalStorage = async (setAside: SetAside) => {
+  let version = 0;
+  let data: RawData = {};
+  let fromLegacyKeys = false;
+
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (saved === null) {
+    Object.entries(LEGACY_KEYS).forEach(([field, key]) => {
+      const raw = localStorage.getItem(key);
+      if (raw !== null) {
+        data[field] = raw;
+        fromLegacyKeys = true;
+      }
+    });
+  } else {
+    try {
+      ({ version, data } = await openMeta(JSON.parse(saved)));
+    } catch {
+      setAside(STORAGE_KEY, "Stored data could not be read", saved);
+      version = SCHEMA_VERSION;
+    }
+  }
+
+  return { version, data, fromLegacyKeys };
+};
+
+// Read everything in the database, unsealing it if the vault is on
+const readFromDatabase = async (db: IDBDatabase, setAside: SetAside) => {
+  const stored = await readDatabase(db);
+  if (!stored) return null;
+
+  const { version, data } = await openMeta(stored.meta);
+  const expenses = await Promise.all(
+    stored.expenses.map(async (record) => {
+      if (!isSealed(record)) return record;
+      try {
+        return await unseal(record.sealed);
+      } catch {
+        setAside("expenses", "Could not be decrypted", record);
+        return null;
+      }
+    })
+  );
+
+  return {
+    version,
+    data: { ...data, expenses: expenses.filter((e) => e !== null) },
+  };
+};
+
+// Bring data saved under schema `version` up to date and validate it.
+// Whatever can't be used is returned in `rejected` rather than dropped.
+export const upgradeData = (version: number, saved: RawData) => {
+  const rejected: QuarantineEntry[] = [];
+  const setAside: SetAside = (source, reason, value) => {
+    rejected.push({
+      quarantinedAt: new Date().toISOString(),
+      source,
+      reason,
+      value,
+    });
+  };
+
+  let data = saved;
+  if (version > SCHEMA_VERSION) {
+    // Written by a newer version of the app. Keep an untouched copy, then
+    // salvage whatever still matches the current schema.
+    setAside("data", `Saved by a newer version (${version})`, data);
+  }
+
+  for (let v = version; v < SCHEMA_VERSION; v++) {
+    try {
+      data = MIGRATIONS[v](data, setAside);
+    } catch {
+      setAside("data", `Migration from version ${v} failed`, data);
+      data = {};
+      break;
+    }
+  }
+
+  return { data: validate(data, setAside), rejected };
+};
+
+// Read, migrate and validate the stored data. Anything unreadable is moved
+// to the quarantine instead of being dropped, and the cleaned-up data is
+// written back so the same problem isn't reported on every load. Data still
+// in localStorage is moved to IndexedDB once, when it is available.
+export const loadData = async () => {
+  const quarantined: QuarantineEntry[] = [];
+  const setAside: SetAside = (source, reason, value) => {
+    quarantined.push({
+      quarantinedAt: new Date().toISOString(),
+      source,
+      reason,
+      value,
+    });
+  };
+
+  const db = await getDatabase();
+  let stored: Awaited<ReturnType<typeof readFromDatabase>> = null;
+  if (db) {
+    try {
+      stored = await readFromDatabase(db, setAside);
+    } catch (error) {
+      console.error("Could not read the database", error);
+      databaseFailed = true;
+    }
+  }
+
+  const {
+    version,
+    data: storedData,
+    fromLegacyKeys,
+  } = stored
+    ? { ...stored, fromLegacyKeys: false }
+    : await readLocalStorage(setAside);
+
+  const upgraded = upgradeData(version, storedData);
+  quarantined.push(...upgraded.rejected);
+  const result = upgraded.data;
+
+  // If the quarantine can't be saved, what is stored is left as it is so
+  // the records set aside aren't lost. The cleaned-up data still loads.
+  let quarantineSaved = true;
+  if (quarantined.length > 0) {
+    try {
+      await writeQuarantine([...(await getQuarantine()), ...quarantined]);
+    } catch (error) {
+      console.error("Could not save the quarantine", error);
+      quarantineSaved = false;
+    }
+  }
+
+  const changed =
+    version !== SCHEMA_VERSION || fromLegacyKeys || quarantined.length > 0;
+  const usingDatabase = !!db && !databaseFailed;
+  if (quarantineSaved && ((usingDatabase && !stored) || changed)) {
+    try {
+      await writeAllData(result);
+      // Data is moved out of localStorage once the database has it
+      if (usingDatabase) removeLocalStorageData();
+      else if (fromLegacyKeys) {
+        Object.values(LEGACY_KEYS).forEach((key) =>
+          localStorage.removeItem(key)
+        );
+      }
+    } catch (error) {
+      console.error("Could not save data", error);
+    }
+  }
+  localExpenses = result.expenses;
+
+  // Quarantined entries may still refer to files, so those are kept until
+  // the quarantine is cleared
+  try {
+    if (quarantineSaved && (await getQuarantine()).length === 0) {
+      await pruneAttachments(result.expenses);
+    }
+  } catch (error) {
+    console.error("Could not clean up attachments", error);
+  }
+
+  return { data: result, quarantined };
+};
+
+export type ExpenseQuery = {
+  range: DateRange;
+  // Only the expenses this accepts
+  matches?: (expense: Expense) => boolean;
+  // Order other than newest first. The database can't sort by anything
+  // but date, so this is done in memory.
+  compare?: (a: Expense, b: Expense) => number;
+};
+
+const newestFirst = (a: Expense, b: Expense) =>
+  new Date(b.date).getTime() - new Date(a.date).getTime();
+
+// One page of the expenses matching the query
+export const queryExpenses = async (
+  { range, matches, compare }: ExpenseQuery,
+  offset: number,
+  limit: number
+) => {
+  // Sealed expenses aren't in the date index
+  const db = await getDatabase();
+  if (db && !isVaultEnabled() && !compare) {
+    try {
+      return await queryDatabase(db, range, offset, limit, matches);
+    } catch (error) {
+      // The expenses in memory are the same ones, just slower to page
+      console.error("Could not read the database", error);
+    }
+  }
+
+  return localExpenses
+    .filter(
+      (expense) =>
+        isInRange(expense.date, range) && (!matches || matches(expense))
+    )
+    .sort(compare || newestFirst)
+    .slice(offset, offset + limit);
+};
@@ -0,0 +1,151 @@
+import type { Budget, Expense } from "../types";
+import { getLimitBetween, getPeriodStart } from "./budget";
+import type { DateRange } from "./dateRange";
+import { DAY } from "./dates";
+import type { SpendingForecast } from "./forecast";
+
+export type Granularity = "day" | "week" | "month";
+
+// Upper bound on bars so a long daily range stays readable
+const MAX_BUCKETS = 366;
+
+export const getBucketStart = (date: Date, granularity: Granularity) => {
+  if (granularity === "week") return getPeriodStart("weekly", date);
+  if (granularity === "month") return getPeriodStart("monthly", date);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+};
+
+export const getNextBucket = (date: Date, granularity: Granularity) => {
+  if (granularity === "month") {
+    return new Date(date.getFullYear(), date.getMonth() + 1, 1);
+  }
+  return new Date(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate() + (granularity === "week" ? 7 : 1)
+  );
+};
+
+export const formatBucketLabel = (date: Date, granularity: Granularity) => {
+  if (granularity === "month") {
+    return date.toLocaleDateString(undefined, {
+      month: "short",
+      year: "numeric",
+    });
+  }
+  return date.toLocaleDateString(undefined, { month: "short", day: "numeric" });
+};
+
+// Bucket start dates covering the range. Open-ended ranges run from the
+// oldest expense up to today.
+export const getBuckets = (
+  range: DateRange,
+  expenses: Expense[],
+  granularity: Granularity,
+  now = new Date()
+) => {
+  const oldest = expenses.reduce<Date | null>((min, expense) => {
+    const date = new Date(expense.date);
+    return !min || date < min ? date : min;
+  }, null);
+
+  const start = getBucketStart(range.start || oldest || now, granularity);
+  // Range ends are exclusive, so step back a millisecond to stay inside
+  const last = range.end ? new Date(range.end.getTime() - 1) : now;
+
+  const buckets: Date[] = [];
+  for (
+    let bucket = start;
+    bucket <= last;
+    bucket = getNextBucket(bucket, granularity)
+  ) {
+    buckets.push(bucket);
+  }
+  return buckets.slice(-MAX_BUCKETS);
+};
+
+// Spending per category for each bucket
+export const getSpendingSeries = (
+  expenses: Expense[],
+  categories: string[],
+  buckets: Date[],
+  granularity: Granularity
+) => {
+  const series = categories.map(() => buckets.map(() => 0));
+  const bucketIndex = new Map(
+    buckets.map((bucket, index) => [bucket.getTime(), index])
+  );
+
+  expenses.forEach((expense) => {
+    if (expense.kind !== "expense") return;
+
+    const categoryIndex = categories.indexOf(expense.category);
+    const index = bucketIndex.get(
+      getBucketStart(new Date(expense.date), granularity).getTime()
+    );
+    if (categoryIndex !== -1 && index !== undefined) {
+      series[categoryIndex][index] += expense.amount;
+    }
+  });
+
+  return series;
+};
+
+// Combined budget limit for each bucket. Limits are spread over the days of
+// their own period, so a monthly budget still shows up on a daily chart.
+export const getBudgetSeries = (
+  budgets: Budget[],
+  buckets: Date[],
+  granularity: Granularity
+) =>
+  buckets.map((bucket) =>
+    budgets.reduce(
+      (sum, budget) =>
+        sum +
+        getLimitBetween(budget, bucket, getNextBucket(bucket, granularity)),
+      0
+    )
+  );
+
+// Expected spending for each bucket the rest of the forecast month reaches,
+// on top of what is already spent in it. Other buckets are null, so the
+// projection is only drawn over the days ahead.
+export const getForecastSeries = (
+  forecast: SpendingForecast,
+  spent: number[],
+  buckets: Date[],
+  granularity: Granularity
+) => {
+  const now = forecast.now.getTime();
+  const end = forecast.end.getTime();
+
+  const points = buckets.map((bucket, index) => {
+    const from = Math.max(bucket.getTime(), now);
+    const to = Math.min(getNextBucket(bucket, granularity).getTime(), end);
+    if (from >= to) return null;
+
+    const known =
+      spent[index] +
+      forecast.upcoming
+        .filter((item) => {
+          const time = item.date.getTime();
+          return time >= from && time < to;
+        })
+        .reduce((sum, item) => sum + item.amount, 0);
+    const projected = known + (forecast.dailyRate * (to - from)) / DAY;
+    // The band is shared out over the rest of the month by time
+    const spread = (forecast.spread * (to - from)) / (end - now);
+
+    return {
+      projected,
+      low: Math.max(known, projected - spread),
+      high: projected + spread,
+    };
+  });
+
+  return {
+    projected: points.map((point) => point?.projected ?? null),
+    low: points.map((point) => point?.low ?? null),
+    high: points.map((point) => point?.high ?? null),
+  };
+};
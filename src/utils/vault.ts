@@ -0,0 +1,187 @@
+const VAULT_KEY = "financeTrackerVault";
+
+// OWASP's recommendation for PBKDF2-HMAC-SHA256. Stored with the vault so
+// it can be raised later without breaking existing vaults.
+const PBKDF2_ITERATIONS = 600000;
+
+// Encrypted to check a passphrase without touching the data
+const CHECK_VALUE = "finance-tracker-vault";
+
+export const AUTO_LOCK_OPTIONS = [1, 5, 15, 30, 60];
+
+// AES-GCM ciphertext of a JSON value, base64 encoded
+export type Sealed = {
+  iv: string;
+  data: string;
+};
+
+// Stored in plaintext; none of it reveals the passphrase or the data
+type VaultConfig = {
+  salt: string;
+  iterations: number;
+  check: Sealed;
+  autoLockMinutes: number;
+};
+
+let key: CryptoKey | null = null;
+
+// A passphrase change being written. Until it is committed, data is sealed
+// and unsealed the new way, but the stored config stays the old one, so a
+// failed rewrite can be undone. A null config turns the vault off.
+let pending: { config: VaultConfig | null; key: CryptoKey | null } | null =
+  null;
+
+const currentKey = () => (pending ? pending.key : key);
+
+const toBase64 = (bytes: Uint8Array) =>
+  btoa(Array.from(bytes, (byte) => String.fromCharCode(byte)).join(""));
+
+const fromBase64 = (value: string) =>
+  Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+
+const readConfig = (): VaultConfig | null => {
+  try {
+    return JSON.parse(localStorage.getItem(VAULT_KEY) || "null");
+  } catch {
+    return null;
+  }
+};
+
+const deriveKey = async (
+  passphrase: string,
+  salt: Uint8Array,
+  iterations: number
+) => {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  );
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations, hash: "SHA-256" },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+};
+
+const sealWith = async (cryptoKey: CryptoKey, value: unknown) => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    cryptoKey,
+    new TextEncoder().encode(JSON.stringify(value))
+  );
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+};
+
+const unsealWith = async (cryptoKey: CryptoKey, sealed: Sealed) => {
+  const data = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromBase64(sealed.iv) },
+    cryptoKey,
+    fromBase64(sealed.data)
+  );
+  return JSON.parse(new TextDecoder().decode(data));
+};
+
+// The key for a passphrase, or null if it is the wrong one
+const keyFor = async (passphrase: string, config: VaultConfig) => {
+  const cryptoKey = await deriveKey(
+    passphrase,
+    fromBase64(config.salt),
+    config.iterations
+  );
+  try {
+    return (await unsealWith(cryptoKey, config.check)) === CHECK_VALUE
+      ? cryptoKey
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+export const isVaultEnabled = () =>
+  (pending ? pending.config : readConfig()) !== null;
+
+export const isVaultLocked = () => isVaultEnabled() && currentKey() === null;
+
+export const getAutoLockMinutes = () => readConfig()?.autoLockMinutes ?? 5;
+
+export const setAutoLockMinutes = (minutes: number) => {
+  const config = readConfig();
+  if (!config) return;
+  localStorage.setItem(
+    VAULT_KEY,
+    JSON.stringify({ ...config, autoLockMinutes: minutes })
+  );
+};
+
+export const unlockVault = async (passphrase: string) => {
+  const config = readConfig();
+  if (!config) return true;
+  key = await keyFor(passphrase, config);
+  return key !== null;
+};
+
+export const verifyPassphrase = async (passphrase: string) => {
+  const config = readConfig();
+  return !!config && (await keyFor(passphrase, config)) !== null;
+};
+
+// Forget the key; the data stays encrypted until the next unlock
+export const lockVault = () => {
+  key = null;
+};
+
+// Switch to a new passphrase and salt, or to no vault with null. Data
+// sealed the old way has to be written again, then the change committed.
+export const startVaultChange = async (passphrase: string | null) => {
+  if (!passphrase) {
+    pending = { config: null, key: null };
+    return;
+  }
+
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const cryptoKey = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  pending = {
+    config: {
+      salt: toBase64(salt),
+      iterations: PBKDF2_ITERATIONS,
+      check: await sealWith(cryptoKey, CHECK_VALUE),
+      autoLockMinutes: getAutoLockMinutes(),
+    },
+    key: cryptoKey,
+  };
+};
+
+// Everything is written the new way; store the config that reads it
+export const commitVaultChange = () => {
+  if (!pending) return;
+  if (pending.config) {
+    localStorage.setItem(VAULT_KEY, JSON.stringify(pending.config));
+  } else {
+    localStorage.removeItem(VAULT_KEY);
+  }
+  key = pending.key;
+  pending = null;
+};
+
+// Go back to the stored config and its key
+export const cancelVaultChange = () => {
+  pending = null;
+};
+
+export const seal = (value: unknown) => {
+  const cryptoKey = currentKey();
+  if (!cryptoKey) throw new Error("The vault is locked");
+  return sealWith(cryptoKey, value);
+};
+
+export const unseal = (sealed: Sealed) => {
+  const cryptoKey = currentKey();
+  if (!cryptoKey) throw new Error("The vault is locked");
+  return unsealWith(cryptoKey, sealed);
+};